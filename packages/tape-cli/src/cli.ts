@@ -1,7 +1,20 @@
 #!/usr/bin/env node
-import fs from 'node:fs'; import path from 'node:path'; import { glob } from 'glob';
-import { ingestDocsToStore, encodeTextToTokens, openStore, buildBitmapIndexFromStore, bitmapStats, intersectTokenDocs, unionTokenDocs } from '@fractaltape/tape-core';
+import fs from 'node:fs'; import os from 'node:os'; import path from 'node:path'; import { pipeline } from 'node:stream/promises'; import { once } from 'node:events'; import { glob } from 'glob';
+import { ingestDocsToStore, type IngestStats, openStore, buildBitmapIndexFromStore, bitmapStats, intersectTokenDocs, unionTokenDocs, intersectDocs } from '@fractaltape/tape-core';
+import { saveBitmapIndex, loadBitmapIndex, openBitmapIndex, updateBitmapIndex, bitmapIndexGeneration, hasCurrentBitmapIndex, markBitmapIndexCurrent } from '@fractaltape/tape-core';
 import { packAddressesIntoSpans, findMinMaxSpans, mergeOverlappingSpans, type AddressSpan } from '@fractaltape/tape-core';
+import { words as tokenizeWords, getTokenizer, DEFAULT_TOKENIZER, TOKENIZER_NAMES } from '@fractaltape/tape-core';
+import { loadGlyphDictionary, saveGlyphDictionary, createGlyphDictionary, type GlyphDictionary } from '@fractaltape/tape-core';
+import { inspectFTZ, fileSource, FTZ_FLAG_LOSSLESS, FTZ_FLAG_ENTROPY, type FtzSource, type FtzInspection, type AddressRange } from '@fractaltape/tape-core';
+import { createEncodeStream, createDecodeStream, createPackStream, createUnpackStream, packArchive, extractArchive, openFTZ, type ArchiveInput, type FtzDocument } from '@fractaltape/tape-core';
+import { compactStore, recordArtifact, staleArtifacts, minDepthForSlots, type DocRecord } from '@fractaltape/tape-core';
+import { splitPhrases, encodeQuery, findTerm, glyphsContaining, queryTerms, termAlternatives, MAX_EXPANSIONS, type QueryTerm } from '@fractaltape/tape-core';
+import { isBooleanQuery, parseQuery, evaluateQuery, queryHits, nearWindows, positiveTerms, type QueryNode, type QueryContext } from '@fractaltape/tape-core';
+import { rankDocs, bestSnippets, type RankedDoc, type TapeStore } from '@fractaltape/tape-core';
+import { trainFGT, encodeFGT, decodeFGT, getFGTStats, applyGrammar, getGrammarStats, validateGrammar, expandStream, DEFAULT_FGT_CONFIG, getCostModel, type FGTConfig, type Grammar } from '@fractaltape/tape-core';
+import { createGrammar, runRepair, findMostFrequentPair, replacePair, type CostModel } from '@fractaltape/tape-core';
+import { fgtGrammarFile, saveGrammar, saveGrammarBinary, loadGrammar, isBinaryGrammar, type GrammarFile } from '@fractaltape/tape-core';
+import { snippetWindows, renderSnippet, DEFAULT_SNIPPET_CONTEXT, HIGHLIGHT_STYLES, type HighlightStyle, type SnippetWindow } from '@fractaltape/tape-core';
 
 // ASCII glyph system (copied from tape-web for CLI use)
 type GlyphEntry = { phrase: string[]; glyph: string };
@@ -86,32 +99,72 @@ function buildAsciiGlyphsForTape(
 
 interface QueryOptions {
   mode: 'union' | 'intersection';
+  tokenizer?: string;
   window: number;
   minSpan: number;
   maxGap: number;
   limit: number;
   json: boolean;
+  phrase: boolean;
+  sort: 'relevance' | 'address';
+  expand: boolean;
+  context: number;
+  highlight?: HighlightStyle;
 }
 
 function usage(){console.log(`Usage:
-  tape ingest <folder-or-files...>
+  tape ingest <folder-or-files...> [--tokenizer <name>] [--existing skip|replace]
   tape query "<text>" [options]
+  tape rm <doc-id|source-path...>
+  tape compact
   tape export <outfile.json>
   tape glyph-train <folder-or-files...> [options]
-  tape encode --glyphs <file> < input.txt > encoded.txt
-  tape decode --glyphs <file> < encoded.txt > decoded.txt
-  tape pack --glyphs <file> < encoded.txt > tape.ftz
-  tape unpack < tape.ftz > encoded.txt
+  tape encode --glyphs <file> [--lossless] < input.txt > encoded.txt
+  tape decode --glyphs <file> [--lossless] < encoded.txt > decoded.txt
+  tape pack --glyphs <file> [--lossless] [--entropy] [--block-size <n>] < input.txt > tape.ftz
+  tape unpack [tape.ftz] [--range <startAddr>:<endAddr>] > decoded.txt
+  tape pack <folder-or-files...> --glyphs <file> [--lossless] [-o archive.ftz]
+  tape unpack <archive.ftz> -o <dir>
+  tape ls <archive.ftz> [--json]
+  tape inspect [tape.ftz] [--json]
   tape bitmap [options]
+  tape fgt train <folder-or-files...> [-o grammar.json|grammar.ftg] [options]
+  tape fgt encode --grammar <file> [--format text|json|binary] [--delta <n>] [input.txt] > encoded.fgt
+  tape fgt expand [encoded.fgt] > tokens.txt
+  tape fgt stats <grammar.json|grammar.ftg> [--json]
+  tape fgt bench [--tokens <n>] [--vocab <n>] [--iterations <n>] [--cost-model <name>] [--json]
+
+Global options (ingest, rm, compact, query, export, bitmap):
+  --db <path>             Tape database (default: $FRACTAL_TAPE_DB, the .taperc
+                          default profile, or ./tape.db)
+  --profile <name>        Use a named profile from .taperc
 
 Query options:
   --and, --intersection    Use AND logic (intersection) instead of OR (union)
   --or, --union           Use OR logic (union) - default
+  --phrase                Match the whole query as one exact phrase
+                          ("quoted" parts of a query are always exact phrases)
+  --no-expand             Only match words literally, not glyphs whose phrase
+                          contains them (e.g. "order" also finds ⇒ = "in order to")
+
+Queries using upper-case AND, OR, NOT or parentheses are boolean and match documents,
+e.g. '(refund OR chargeback) AND NOT "test account"'; adjacent terms are ANDed.
+'refund NEAR/5 chargeback' needs both within 5 addresses in one document; results
+are ranked by the tightest such window.
+'refund*' matches every term starting with "refund"; 'refnd~1' matches terms within
+1 edit (up to 64 terms per pattern).
+  --sort relevance|address  Rank documents by BM25 score with their best snippets
+                          (default), or list hits in address order
   --window <k>            Pack adjacent addresses into spans with gap <= k (default: 0)
   --min-span <n>          Minimum span size to include (default: 1)
   --max-gap <k>           Maximum gap between addresses in same span (default: 0)
-  --limit <n>             Limit results to n hits (default: 50)
+                          (--window, --min-span and --max-gap apply to --sort address)
+  --limit <n>             Limit results to n hits or documents (default: 50)
   --json                  Output as JSON (default: pretty-printed)
+  --context <n>           Addresses of context either side of a hit (default: 20)
+  --highlight ansi|html|none  Markers around matched words in snippets (default: ansi
+                          on a terminal, <mark> otherwise)
+  --tokenizer <name>      Must match the tokenizer the tape was ingested with
 
 Glyph training options:
   --min-freq <n>          Minimum phrase frequency to consider (default: 2)
@@ -124,15 +177,119 @@ Glyph training options:
   --top <n>               Maximum glyphs for aggressive training (default: 512)
   --nmin <n>              Minimum n-gram size (default: 2)
   --nmax <n>              Maximum n-gram size (default: 5)
+  --tokenizer <name>      Tokenizer recorded in the dictionary (default: ascii)
 
 Encode/Decode options:
   --glyphs <file>         Glyph dictionary file (required)
+  --lossless              Keep case, punctuation and whitespace so decode
+                          reproduces the input byte for byte (use on both sides)
+  --tokenizer <name>      Only for bare-array dictionaries; otherwise the
+                          dictionary's recorded tokenizer is used
+
+Tokenizers: ${TOKENIZER_NAMES.join(', ')} (ngram takes a size, e.g. ngram:4)
+
+Grammar (FGT) training options:
+  -o, --output <file>     Output grammar file (default: grammar.json; a .ftg name
+                          writes the binary FTG1 form)
+  --top-k <n>             Top n-gram candidates to turn into rules (default: 100)
+  --n-min <n>             Minimum n-gram size (default: 2)
+  --n-max <n>             Maximum n-gram size (default: 5)
+  --max-iterations <n>    Maximum RePair/Sequitur pair rules (default: 50)
+  --lambda <x>            Rule cost penalty factor (default: 1)
+  --min-gain <x>          Minimum MDL gain of a mined phrase (default: 1)
+  --min-freq <n>          Minimum candidate frequency (default: 2)
+  --tokenizer <name>      Tokenizer for the training text (default: ascii)
+  --cost-model <name>     How rule gains and sizes are measured: bytes (DEF/STREAM
+                          characters) or entropy (bits an entropy coder would
+                          emit) (default: bytes)
+  --json                  Print statistics as one line of JSON
+
+Grammar (FGT) encode options:
+  --format <f>            text (DEF/STREAM), json or binary (default: text)
+  --delta <n>             Let RePair add up to n pair rules for patterns the
+                          grammar does not cover; they are written with the
+                          grammar (default: 0)
+  --lambda <x>            Rule cost penalty for delta rules (default: the
+                          grammar's training lambda; the training cost model
+                          is used too)
+
+Grammar (FGT) bench options (runRepair on Zipf-distributed synthetic tokens,
+at 1/8, 1/4, 1/2 and all of --tokens):
+  --tokens <n>            Largest stream (default: 10000000)
+  --vocab <n>             Distinct tokens (default: 50000)
+  --iterations <n>        Maximum pair rules per run (default: 1000)
+  --cost-model <name>     Pair gain model (default: entropy; with bytes, RePair
+                          stops at the first pair of short rule symbols)
+  --json                  Print results as one line of JSON
 
 Bitmap options:
-  --build                 Build bitmap index from database
+  --build                 Build the bitmap index and save it in the database
+                          (ingest and rm keep it up to date; queries use it)
   --stats                 Show bitmap index statistics
   --test "<query>"        Test bitmap query performance`);}
 
+/**
+ * Highlight style for query snippets: --highlight, else ANSI on a terminal and <mark> in JSON
+ */
+function highlightStyle(options: QueryOptions): HighlightStyle {
+  return options.highlight ?? (!options.json && process.stdout.isTTY ? 'ansi' : 'html');
+}
+
+/**
+ * Decode snippet windows through glyph_dict with every hit highlighted
+ */
+function renderSnippets(store: TapeStore, windows: SnippetWindow[], options: QueryOptions) {
+  const style = highlightStyle(options);
+  const markers = style === 'ansi' ? ANSI_PLACEHOLDERS : HIGHLIGHT_STYLES[style];
+  return windows.map(w => ({
+    doc: w.doc,
+    addr: w.hits[0]?.start ?? w.start,
+    span: { start: w.start, end: w.end, count: w.count, doc: w.doc },
+    text: renderSnippet(store, w, { markers, tokenizer: options.tokenizer })
+  }));
+}
+
+/**
+ * The opening of a document, shown when none of its addresses were hit
+ */
+function openingWindow(store: TapeStore, doc: number, context: number): SnippetWindow {
+  const b = store.docs().find(d => d.doc === doc)!;
+  return { doc, start: b.start, end: Math.min(b.end - 1, b.start + 2 * context), count: 0, hits: [] };
+}
+
+/**
+ * ANSI highlights stand in as the private-use controls PU1/PU2, which JSON leaves as they are and the ansi
+ * escape removes from document text, until printQueryResult swaps in the real escape sequences
+ */
+const ANSI_PLACEHOLDERS = { ...HIGHLIGHT_STYLES.ansi, open: '\u0091', close: '\u0092' };
+
+/**
+ * Print a query result; ANSI highlights are written raw so the terminal colours them
+ */
+function printQueryResult(result: unknown, options: QueryOptions): void {
+  const out = options.json ? JSON.stringify(result) : JSON.stringify(result, null, 2);
+  if (highlightStyle(options) !== 'ansi') { console.log(out); return; }
+  console.log(out.split(ANSI_PLACEHOLDERS.open).join(HIGHLIGHT_STYLES.ansi.open).split(ANSI_PLACEHOLDERS.close).join(HIGHLIGHT_STYLES.ansi.close));
+}
+
+/**
+ * Print BM25-ranked documents with their best snippets (documents without a hit show their opening)
+ */
+function printRanked(store: TapeStore, head: Record<string, unknown>, ranked: RankedDoc[], options: QueryOptions, windows?: AddressSpan[]): void {
+  const limited = ranked.slice(0, options.limit);
+  const results = limited.map(r => {
+    const best = bestSnippets(r.hits, options.context).flatMap(s => s.hits.map(h => ({ ...h, doc: r.doc })));
+    const spans = best.length ? snippetWindows(store, best, options.context) : [openingWindow(store, r.doc, options.context)];
+    return {
+      doc: r.doc,
+      score: Number(r.score.toFixed(4)),
+      snippets: renderSnippets(store, spans, options)
+    };
+  });
+  const result = { ...head, hits: ranked.length, limitedHits: limited.length, docs: limited.map(r => r.doc), results, windows, options };
+  printQueryResult(result, options);
+}
+
 function parseQueryArgs(args: string[]): { query: string; options: QueryOptions } {
   const options: QueryOptions = {
     mode: 'union',
@@ -140,7 +297,11 @@ function parseQueryArgs(args: string[]): { query: string; options: QueryOptions
     minSpan: 1,
     maxGap: 0,
     limit: 50,
-    json: false
+    json: false,
+    phrase: false,
+    sort: 'relevance',
+    expand: true,
+    context: DEFAULT_SNIPPET_CONTEXT
   };
   
   const queryParts: string[] = [];
@@ -173,6 +334,36 @@ function parseQueryArgs(args: string[]): { query: string; options: QueryOptions
         case '--json':
           options.json = true;
           break;
+        case '--phrase':
+          options.phrase = true;
+          break;
+        case '--no-expand':
+          options.expand = false;
+          break;
+        case '--sort': {
+          const sort = args[++i];
+          if (sort !== 'relevance' && sort !== 'address') {
+            console.error(`Invalid --sort "${sort}" (expected relevance or address)`);
+            process.exit(1);
+          }
+          options.sort = sort;
+          break;
+        }
+        case '--context':
+          options.context = parseInt(args[++i] || String(DEFAULT_SNIPPET_CONTEXT), 10);
+          break;
+        case '--highlight': {
+          const style = args[++i];
+          if (!(style in HIGHLIGHT_STYLES)) {
+            console.error(`Invalid --highlight "${style}" (expected ${Object.keys(HIGHLIGHT_STYLES).join(', ')})`);
+            process.exit(1);
+          }
+          options.highlight = style as HighlightStyle;
+          break;
+        }
+        case '--tokenizer':
+          options.tokenizer = args[++i];
+          break;
         default:
           console.error(`Unknown option: ${arg}`);
           process.exit(1);
@@ -195,6 +386,7 @@ interface GlyphTrainOptions {
   prefix: string;
   levels: number;
   seed?: string;
+  tokenizer: string;
 }
 
 function parseGlyphTrainArgs(args: string[]): { inputs: string[]; options: GlyphTrainOptions } {
@@ -204,7 +396,8 @@ function parseGlyphTrainArgs(args: string[]): { inputs: string[]; options: Glyph
     output: 'glyphs.json',
     ascii: false,
     prefix: '~',
-    levels: 2
+    levels: 2,
+    tokenizer: DEFAULT_TOKENIZER
   };
   
   const inputs: string[] = [];
@@ -235,6 +428,9 @@ function parseGlyphTrainArgs(args: string[]): { inputs: string[]; options: Glyph
         case '--seed':
           options.seed = args[++i];
           break;
+        case '--tokenizer':
+          options.tokenizer = args[++i] || DEFAULT_TOKENIZER;
+          break;
         default:
           console.error(`Unknown option: ${arg}`);
           process.exit(1);
@@ -248,6 +444,125 @@ function parseGlyphTrainArgs(args: string[]): { inputs: string[]; options: Glyph
   return { inputs, options };
 }
 
+/**
+ * Parse `tape fgt train` arguments into input paths, output file and FGTConfig
+ */
+function parseFgtTrainArgs(args: string[]): { inputs: string[]; output: string; json: boolean; config: FGTConfig } {
+  const config: FGTConfig = { ...DEFAULT_FGT_CONFIG, tokenizer: DEFAULT_TOKENIZER };
+  const numbers: Record<string, Exclude<keyof FGTConfig, 'tokenizer' | 'costModel'>> = {
+    '--top-k': 'topK', '--n-min': 'nMin', '--n-max': 'nMax', '--max-iterations': 'maxIterations',
+    '--lambda': 'lambda', '--min-gain': 'minGain', '--min-freq': 'minFreq'
+  };
+  const inputs: string[] = [];
+  let output = 'grammar.json';
+  let json = false;
+  
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg in numbers) {
+      const n = Number(args[++i]);
+      if (!Number.isFinite(n) || n < 0) {
+        console.error(`Invalid ${arg} "${args[i]}" (expected a non-negative number)`);
+        process.exit(1);
+      }
+      Object.assign(config, { [numbers[arg]]: n });
+    } else if (arg === '-o' || arg === '--output') {
+      output = args[++i] || output;
+    } else if (arg === '--tokenizer') {
+      config.tokenizer = getTokenizer(args[++i]).name;
+    } else if (arg === '--cost-model') {
+      config.costModel = getCostModel(args[++i]).name;
+    } else if (arg === '--json') {
+      json = true;
+    } else if (arg.startsWith('-')) {
+      console.error(`Unknown option: ${arg}`);
+      process.exit(1);
+    } else {
+      inputs.push(arg);
+    }
+  }
+  if (config.nMin < 2 || config.nMax < config.nMin) {
+    console.error(`Invalid n-gram range ${config.nMin}..${config.nMax} (expected 2 <= --n-min <= --n-max)`);
+    process.exit(1);
+  }
+  return { inputs, output, json, config };
+}
+
+/**
+ * Read and validate a grammar file (JSON or binary), exiting with its problems listed
+ */
+function readFgtGrammar(file: string): GrammarFile {
+  try {
+    return loadGrammar(fs.readFileSync(file));
+  } catch (e) {
+    console.error(`${file}: ${(e as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Print grammar statistics and validation problems (Maps printed as objects)
+ */
+function printGrammarReport(report: Record<string, unknown>, json: boolean): void {
+  const replacer = (_: string, v: unknown) => v instanceof Map ? Object.fromEntries(v) : v;
+  console.log(json ? JSON.stringify(report, replacer) : JSON.stringify(report, replacer, 2));
+}
+
+/**
+ * Deterministic token stream with Zipf-distributed frequencies (rank r drawn with weight 1/r)
+ */
+function zipfStream(length: number, vocab: number, seed: number): string[] {
+  const rand = mulberry32(seed);
+  const cdf = new Float64Array(vocab);
+  let total = 0;
+  for (let r = 0; r < vocab; r++) cdf[r] = total += 1 / (r + 1);
+  const names = Array.from({ length: vocab }, (_, r) => `w${r}`);
+  const stream = new Array<string>(length);
+  for (let i = 0; i < length; i++) {
+    const u = rand() * total;
+    let lo = 0, hi = vocab - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (cdf[mid] < u) lo = mid + 1; else hi = mid;
+    }
+    stream[i] = names[lo];
+  }
+  return stream;
+}
+
+/**
+ * Time runRepair at doubling stream sizes. For comparison, the rescanning RePair it replaced
+ * took one findMostFrequentPair + replacePair pass per rule: scanMs times the rules created.
+ */
+function benchRepair(maxTokens: number, vocab: number, iterations: number, model: CostModel) {
+  const results = [];
+  for (const tokens of [maxTokens / 8, maxTokens / 4, maxTokens / 2, maxTokens].map(Math.floor).filter(n => n >= 2)) {
+    const stream = zipfStream(tokens, vocab, tokens);
+    const grammar = createGrammar();
+    let start = Date.now();
+    const out = runRepair(grammar, stream, iterations, DEFAULT_FGT_CONFIG.lambda, model);
+    const repairMs = Date.now() - start;
+    
+    start = Date.now();
+    const pair = findMostFrequentPair(stream);
+    if (pair) replacePair(stream, pair, '0');
+    const scanMs = Date.now() - start;
+    
+    results.push({
+      tokens, rules: grammar.rules.size, streamTokens: out.length, repairMs,
+      tokensPerSecond: Math.round(tokens / Math.max(repairMs, 1) * 1000), scanMs, rescanEstimateMs: scanMs * grammar.rules.size
+    });
+  }
+  return results;
+}
+
+/**
+ * getGrammarStats and validateGrammar for one grammar
+ */
+function grammarReport(grammar: Grammar): { grammar: ReturnType<typeof getGrammarStats>; errors: string[] } {
+  return { grammar: getGrammarStats(grammar), errors: validateGrammar(grammar) };
+}
+
 interface BitmapOptions {
   build: boolean;
   stats: boolean;
@@ -295,14 +610,12 @@ function parseBitmapArgs(args: string[]): { options: BitmapOptions } {
   return { options };
 }
 
-function analyzePhrases(docs: string[], minFreq: number): Map<string, number> {
+function analyzePhrases(docs: string[], minFreq: number, tokenizer: string): Map<string, number> {
   const phraseFreq = new Map<string, number>();
+  const tok = getTokenizer(tokenizer);
   
   for (const doc of docs) {
-    const words = doc.toLowerCase()
-      .replace(/[^a-z0-9\s']/g, ' ')
-      .split(/\s+/)
-      .filter(w => w.length > 0);
+    const words = tokenizeWords(doc, tok);
     
     // Analyze bigrams
     for (let i = 0; i < words.length - 1; i++) {
@@ -383,7 +696,7 @@ function generateSimpleGlyph(words: string[], usedGlyphs: Set<string>): string |
   
   for (const strategy of strategies) {
     const glyph = strategy();
-    if (!usedGlyphs.has(glyph) && glyph.length <= 3) {
+    if (!usedGlyphs.has(glyph) && glyph.length <= 3 && !/\s/.test(glyph)) {
       return glyph;
     }
   }
@@ -391,38 +704,370 @@ function generateSimpleGlyph(words: string[], usedGlyphs: Set<string>): string |
   return null;
 }
 
-async function run(){const[,,cmd,...args]=process.argv; if(!cmd) return usage();
+function flagValue(args: string[], name: string): string | undefined {
+  const inline = args.find(arg => arg.startsWith(name + '='));
+  if (inline) return inline.slice(name.length + 1);
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+/**
+ * Pick the tokenizer for a tape or dictionary: the recorded one wins, and an
+ * explicit --tokenizer that disagrees with it is an error rather than a silent mismatch
+ */
+function resolveTokenizer(recorded: string | null | undefined, requested?: string): string {
+  const wanted = requested ? getTokenizer(requested).name : undefined;
+  if (recorded && wanted && recorded !== wanted) {
+    console.error(`Tokenizer mismatch: recorded "${recorded}", requested "${wanted}"`);
+    process.exit(1);
+  }
+  return recorded || wanted || DEFAULT_TOKENIZER;
+}
+
+/**
+ * Read and validate a glyph dictionary file, exiting with its problems listed
+ */
+function readGlyphDictionary(file: string, tokenizer?: string): GlyphDictionary {
+  try {
+    return loadGlyphDictionary(fs.readFileSync(file, 'utf8'), { tokenizer: tokenizer && getTokenizer(tokenizer).name });
+  } catch (e) {
+    console.error(`${file}: ${(e as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Open an .ftz file (or stdin) for random access; piped stdin is spooled to an unlinked
+ * temporary file, so memory stays flat however large the container is
+ */
+function readTapeSource(file?: string): FtzSource {
+  const fd = file ? fs.openSync(file, 'r') : 0;
+  return fileSource(fs.fstatSync(fd).isFile() ? fd : spoolToFile(fd));
+}
+
+/**
+ * Copy a non-seekable input into a temporary file and return a descriptor for it
+ * The file is unlinked at once; the descriptor keeps it alive until the process exits
+ */
+function spoolToFile(input: number): number {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tape-'));
+  const file = path.join(dir, 'stdin.ftz');
+  const fd = fs.openSync(file, 'w+');
+  fs.rmSync(dir, { recursive: true });
+  const buf = Buffer.alloc(1 << 16);
+  for (let n; (n = fs.readSync(input, buf, 0, buf.length, null)) > 0;) fs.writeSync(fd, buf, 0, n);
+  return fd;
+}
+
+/**
+ * Arguments that are neither flags nor the values of the given flags
+ */
+function positionalArgs(args: string[], valueFlags: string[]): string[] {
+  return args.filter((a, i) => !a.startsWith('-') && !valueFlags.includes(args[i - 1]));
+}
+
+/**
+ * Expand pack inputs: a directory contributes its files matching pattern (paths relative
+ * to it), a file contributes its base name
+ */
+function collectArchiveInputs(inputs: string[], pattern: string): ArchiveInput[] {
+  const files: ArchiveInput[] = [];
+  for (const input of inputs) {
+    if (fs.statSync(input).isDirectory()) {
+      for (const f of glob.sync(pattern, { cwd: input, nodir: true }).sort()) {
+        files.push({ path: f.split(path.sep).join('/'), file: path.join(input, f) });
+      }
+    } else {
+      files.push({ path: path.basename(input), file: input });
+    }
+  }
+  return files;
+}
+
+/**
+ * Parse "start:end" into a half-open address range; either side may be left out
+ */
+function parseRange(spec: string): AddressRange {
+  const m = /^(\d*):(\d*)$/.exec(spec);
+  if (!m || (m[2] && Number(m[1] || 0) > Number(m[2]))) {
+    console.error(`Invalid --range "${spec}" (expected <startAddr>:<endAddr>)`);
+    process.exit(1);
+  }
+  return { start: m[1] ? Number(m[1]) : 0, end: m[2] ? Number(m[2]) : Infinity };
+}
+
+/**
+ * Read a positive integer flag, exiting if it is malformed
+ */
+function numberFlag(args: string[], name: string): number | undefined {
+  const value = flagValue(args, name);
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    console.error(`Invalid ${name} "${value}" (expected a positive integer)`);
+    process.exit(1);
+  }
+  return n;
+}
+
+/**
+ * Wait for a stream pipeline, exiting with its error message if it fails
+ */
+async function streamOrExit(done: Promise<unknown>): Promise<void> {
+  try {
+    await done;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'EPIPE') return; // Reader went away (e.g. | head)
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+}
+
+/** A named tape in .taperc */
+interface TapeProfile {
+  db: string;
+}
+
+/** .taperc: JSON with named profiles and an optional default profile name */
+interface TapeRc {
+  default?: string;
+  profiles: Record<string, TapeProfile>;
+}
+
+/**
+ * Find .taperc in the working directory or its parents, then in the home directory
+ */
+function findTapeRc(): string | undefined {
+  for (let dir = process.cwd(); ; dir = path.dirname(dir)) {
+    const candidate = path.join(dir, '.taperc');
+    if (fs.existsSync(candidate)) return candidate;
+    if (path.dirname(dir) === dir) break;
+  }
+  const home = path.join(os.homedir(), '.taperc');
+  return fs.existsSync(home) ? home : undefined;
+}
+
+/**
+ * Read and check a .taperc file, exiting with the problem if it is malformed
+ */
+function readTapeRc(file: string): TapeRc {
+  let rc: TapeRc;
+  try {
+    rc = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    console.error(`${file}: ${(e as Error).message}`);
+    process.exit(1);
+  }
+  const profiles = rc && typeof rc.profiles === 'object' ? Object.entries(rc.profiles) : null;
+  const bad = profiles?.find(([, p]) => !p || typeof p.db !== 'string')?.[0];
+  if (!profiles || bad || (rc.default !== undefined && !rc.profiles[rc.default])) {
+    console.error(`${file}: expected {"default"?: name, "profiles": {name: {"db": path}}}` + (bad ? ` (profile "${bad}" has no db)` : ''));
+    process.exit(1);
+  }
+  return rc;
+}
+
+/**
+ * Resolve the tape database path: --db, then --profile, then FRACTAL_TAPE_DB, then the
+ * .taperc default profile, then ./tape.db. Profile paths are relative to their .taperc.
+ */
+function resolveTapeDb(db?: string, profile?: string): string {
+  if (db) return db;
+  
+  const rcFile = findTapeRc();
+  const rc = rcFile ? readTapeRc(rcFile) : undefined;
+  const fromProfile = (name: string): string => path.resolve(path.dirname(rcFile!), rc!.profiles[name].db);
+  
+  if (profile) {
+    if (!rc?.profiles[profile]) {
+      const known = rc ? Object.keys(rc.profiles).join(', ') : 'no .taperc found';
+      console.error(`Unknown profile "${profile}" (${known})`);
+      process.exit(1);
+    }
+    return fromProfile(profile);
+  }
+  if (process.env.FRACTAL_TAPE_DB) return process.env.FRACTAL_TAPE_DB;
+  if (rc?.default) return fromProfile(rc.default);
+  return 'tape.db';
+}
+
+/**
+ * Remove global options (--db, --profile) from argv, returning their values and the rest
+ */
+function splitGlobalArgs(argv: string[]): { db?: string; profile?: string; rest: string[] } {
+  const db = flagValue(argv, '--db');
+  const profile = flagValue(argv, '--profile');
+  const rest = argv.filter((a, i) =>
+    !['--db', '--profile'].includes(a) && !['--db', '--profile'].includes(argv[i - 1]) &&
+    !a.startsWith('--db=') && !a.startsWith('--profile='));
+  return { db, profile, rest };
+}
+
+async function run(){const global=splitGlobalArgs(process.argv.slice(2)); const[cmd,...args]=global.rest; if(!cmd) return usage();
+  const tape=()=>resolveTapeDb(global.db,global.profile);
   if(cmd==='ingest'){ 
-    if(args.length===0) return usage(); 
+    const tokenizer=flagValue(args,'--tokenizer');
+    const existing=flagValue(args,'--existing') ?? 'replace';
+    if(existing!=='skip' && existing!=='replace'){ console.error(`Invalid --existing "${existing}" (expected skip or replace)`); process.exit(1); }
+    const paths=positionalArgs(args,['--tokenizer','--existing']);
+    if(paths.length===0) return usage(); 
     const inputs:string[]=[];
-    for(const a of args){
+    for(const a of paths){
       const st=fs.statSync(a); 
       if(st.isDirectory()){
-        const files = glob.sync('**/*.{txt,md}',{cwd:a,nodir:true});
+        const files = glob.sync('**/*.{txt,md}',{cwd:a,nodir:true}).sort();
         for(const f of files) inputs.push(path.join(a,f));
       } else {
         inputs.push(a);
       }
     }
-    const docs=inputs.map(f=>fs.readFileSync(f,'utf8')); 
-    const stats=ingestDocsToStore(docs,'tape.db'); 
+    // Documents are keyed by absolute path so re-ingesting from another directory still matches
+    const docs=inputs.map(f=>({text:fs.readFileSync(f,'utf8'),source:path.resolve(f)})); 
+    const db=tape();
+    // Appending to a tape keeps its recorded tokenizer unless --tokenizer says otherwise
+    const store=openStore(db);
+    const recorded=store.getMeta('tokenizer');
+    store.close();
+    let stats: IngestStats;
+    try {
+      stats=ingestDocsToStore(docs,db,undefined,resolveTokenizer(recorded,tokenizer),{existing}); 
+    } catch (e) {
+      console.error(`${db}: ${(e as Error).message}`);
+      process.exit(1);
+    }
     console.log('Ingest complete:',stats); 
     return;
   }
+  if(cmd==='rm'){
+    const targets=positionalArgs(args,[]);
+    if(targets.length===0) return usage();
+    const store=openStore(tape());
+    const indexed=hasCurrentBitmapIndex(store);
+    let failed=false;
+    for(const t of targets){
+      // Numeric arguments are doc IDs; anything else is matched against the ingested source path
+      const doc:DocRecord|null=/^\d+$/.test(t) ? store.docs().find(d=>d.doc===Number(t)) ?? null : store.findDocBySource(path.resolve(t));
+      if(doc && indexed) updateBitmapIndex(store,doc.doc,true);
+      if(!doc || !store.removeDoc(doc.doc)){ console.error(`No document ${t}`); failed=true; continue; }
+      console.log(`Removed doc ${doc.doc} (${doc.end-doc.start} addresses)${doc.source ? ` ${doc.source}` : ''}`);
+    }
+    if(indexed) markBitmapIndexCurrent(store);
+    store.close();
+    if(failed) process.exit(1);
+    return;
+  }
+  if(cmd==='compact'){
+    const store=openStore(tape());
+    const stats=compactStore(store);
+    console.log(`Compacted ${stats.addressesBefore} -> ${stats.addressesAfter} addresses (depth ${stats.depthD})`);
+    console.log(`Postings: ${stats.postingsBefore} -> ${stats.postingsAfter}`);
+    console.log(`Reclaimed ${stats.reclaimedBytes} bytes (${stats.bytesBefore} -> ${stats.bytesAfter})`);
+    const stale=staleArtifacts(store);
+    for(const a of stale) console.log(`Stale ${a.kind}: ${a.path} (re-run to refresh)`);
+    store.close();
+    return;
+  }
   if(cmd==='query'){
     const {query, options} = parseQueryArgs(args);
     if(!query) return usage();
     
-    const store=openStore('tape.db'); 
-    const tokens=encodeTextToTokens(query);
+    const store=openStore(tape()); 
+    const tokenizer=resolveTokenizer(store.getMeta('tokenizer'),options.tokenizer);
+    const truncated:string[]=[];
+    const terms=queryTerms(store,query,{tokenizer,truncated});
+    const tokens=terms.flatMap(termAlternatives).flat();
+    for(const p of new Set(truncated)) console.error(`Note: ${p} matches more than ${MAX_EXPANSIONS} terms; only the first ${MAX_EXPANSIONS} are searched`);
+    
+    if (!options.phrase && isBooleanQuery(query)) {
+      // Boolean query language: evaluate over the bitmap index, then pull snippets from the store
+      let tree: QueryNode;
+      try {
+        tree = parseQuery(query);
+      } catch (e) {
+        console.error(`Invalid query: ${(e as Error).message}`);
+        store.close();
+        process.exit(1);
+      }
+      const ctx: QueryContext = { index: openBitmapIndex(store), store, tokenizer, expand: options.expand };
+      const matched = evaluateQuery(tree, ctx);
+      const inResult = new Set(matched);
+      const windows = nearWindows(tree, ctx).filter(w => inResult.has(w.doc));
+      
+      if (options.sort === 'relevance') {
+        // NEAR windows rank their documents by tightness first; BM25 orders the rest
+        const ranked = rankDocs(store, positiveTerms(tree, ctx), { docs: matched, expand: options.expand });
+        const tightness = new Map<number, number>();
+        windows.forEach((w, i) => { if (!tightness.has(w.doc)) tightness.set(w.doc, i); });
+        ranked.sort((a, b) => (tightness.get(a.doc) ?? Infinity) - (tightness.get(b.doc) ?? Infinity) || b.score - a.score || a.doc - b.doc);
+        printRanked(store, { query, tree }, ranked, options, windows.length > 0 ? windows.slice(0, options.limit) : undefined);
+        store.close();
+        return;
+      }
+      
+      const best = new Map<number, AddressSpan>();
+      for (const w of windows) if (!best.has(w.doc)) best.set(w.doc, w);
+      const limited = matched.slice(0, options.limit);
+      const bounds = new Map(store.docs().map(d => [d.doc, d]));
+      const snippets = renderSnippets(store, limited.map(doc => {
+        const {start, end} = bounds.get(doc)!;
+        const hit = best.get(doc) ?? queryHits(tree, ctx, start, end, 1)[0];
+        return hit ? snippetWindows(store, [{ ...hit, doc }], options.context)[0] : openingWindow(store, doc, options.context);
+      }), options);
+      const result = { query, tree, hits: matched.length, limitedHits: limited.length, docs: limited, snippets,
+        windows: windows.length > 0 ? windows.slice(0, options.limit) : undefined, options };
+      printQueryResult(result, options);
+      store.close();
+      return;
+    }
+    
+    if (options.phrase || query.includes('"')) {
+      // Phrase search: every quoted phrase (and each loose token) must match at consecutive addresses
+      const {phrases, words} = options.phrase ? {phrases: [query.replace(/"/g, ' ')], words: ''} : splitPhrases(query);
+      const segments = [...phrases.map(p => encodeQuery(store, p, tokenizer)).filter(seg => seg.length > 0), ...queryTerms(store, words, {tokenizer})];
+      if (options.sort === 'relevance') {
+        printRanked(store, { query, phrases: segments }, rankDocs(store, segments, { requireAll: options.mode === 'intersection', expand: options.expand }), options);
+        store.close();
+        return;
+      }
+      const matches = segments.map(seg => findTerm(store, seg, options.expand));
+      let spans = matches.flat();
+      if (options.mode === 'intersection') {
+        // Keep matches from documents where every segment occurs
+        const docSets = matches.map(m => new Set(m.map(s => s.doc)));
+        spans = spans.filter(s => docSets.every(d => d.has(s.doc)));
+      }
+      spans.sort((a, b) => a.start - b.start || a.end - b.end);
+      const limited = spans.slice(0, options.limit);
+      const snippets = renderSnippets(store, snippetWindows(store, limited, options.context), options);
+      const result = {
+        query,
+        phrases: segments,
+        hits: spans.length,
+        limitedHits: limited.length,
+        docs: Array.from(new Set(limited.map(s => s.doc!))).sort((a, b) => a - b),
+        snippets,
+        options
+      };
+      printQueryResult(result, options);
+      store.close();
+      return;
+    }
+    
+    if (options.sort === 'relevance') {
+      printRanked(store, { query, tokens }, rankDocs(store, terms, { requireAll: options.mode === 'intersection', expand: options.expand }), options);
+      store.close();
+      return;
+    }
     
+    // Each term matches its prefix/fuzzy expansions and the glyphs whose phrase contains them
+    const alternatives = (term: QueryTerm) => termAlternatives(term).flatMap(([t]) => options.expand ? [t, ...glyphsContaining(store, t)] : [t]);
     let addrs: number[];
     if (options.mode === 'intersection') {
       // AND logic: find intersection of all token postings
-      if (tokens.length === 0) {
+      if (terms.length === 0) {
         addrs = [];
       } else {
-        const tokenSets = tokens.map(t => new Set(store.postings(t, 100000)));
+        const tokenSets = terms.map(t => new Set(alternatives(t).flatMap(a => store.postings(a, 100000))));
         addrs = Array.from(tokenSets[0]).filter(addr => 
           tokenSets.every(set => set.has(addr))
         ).sort((a,b) => a-b);
@@ -430,8 +1075,8 @@ async function run(){const[,,cmd,...args]=process.argv; if(!cmd) return usage();
     } else {
       // OR logic: find union of all token postings (default)
       const addrSet=new Set<number>(); 
-      for(const t of tokens){
-        for(const a of store.postings(t,100000)) addrSet.add(a);
+      for(const t of terms){
+        for(const a of alternatives(t).flatMap(a => store.postings(a,100000))) addrSet.add(a);
       } 
       addrs=Array.from(addrSet).sort((a,b)=>a-b);
     }
@@ -449,14 +1094,8 @@ async function run(){const[,,cmd,...args]=process.argv; if(!cmd) return usage();
     }
     
     const docs=store.addressesToDocs(limitedAddrs); 
-    const snippets:{doc:number,addr:number,text:string}[]=[];
-    for (const a of limitedAddrs) { 
-      const doc=store.addressToDoc(a); 
-      const start=Math.max(0,a-20); 
-      const end=a+20; 
-      const toks=store.tokensInRange(start,end); 
-      snippets.push({doc,addr:a,text:toks.join(' ')}); 
-    }
+    const hits=limitedAddrs.map(a=>({start:a,end:a,count:1,doc:store.addressToDoc(a)}));
+    const snippets=renderSnippets(store,snippetWindows(store,hits,options.context),options);
     
     const result = { 
       query, 
@@ -469,11 +1108,7 @@ async function run(){const[,,cmd,...args]=process.argv; if(!cmd) return usage();
       options
     };
     
-    if (options.json) {
-      console.log(JSON.stringify(result));
-    } else {
-      console.log(JSON.stringify(result, null, 2));
-    }
+    printQueryResult(result, options);
     store.close(); 
     return;
   }
@@ -481,11 +1116,11 @@ async function run(){const[,,cmd,...args]=process.argv; if(!cmd) return usage();
     const out=args[0]; 
     if(!out) return usage(); 
     
-    const store=openStore('tape.db');
+    const store=openStore(tape());
     
     // Get basic metadata
     const countRow=store.db.prepare('SELECT COUNT(*) as c FROM tokens').get() as {c:number}; 
-    const D=Math.ceil(Math.log(countRow.c)/Math.log(3));
+    const D=minDepthForSlots(store.nextAddress());
     
     // Get postings for all tokens (limited to prevent huge files)
     const postings:Record<string,number[]>={}; 
@@ -531,6 +1166,7 @@ async function run(){const[,,cmd,...args]=process.argv; if(!cmd) return usage();
       meta: { 
         count: countRow.c, 
         depthD: D, 
+        generation: store.generation(),
         generatedAt: new Date().toISOString(),
         stats
       }, 
@@ -543,6 +1179,7 @@ async function run(){const[,,cmd,...args]=process.argv; if(!cmd) return usage();
     
     fs.mkdirSync(path.dirname(out),{recursive:true}); 
     fs.writeFileSync(out,JSON.stringify(obj, null, 2)); 
+    recordArtifact(store,path.resolve(out),'JSON export');
     console.log(`Exported to ${out} (${Math.round(JSON.stringify(obj).length/1024)}KB)`); 
     store.close(); 
     return;
@@ -580,16 +1217,21 @@ async function run(){const[,,cmd,...args]=process.argv; if(!cmd) return usage();
         nMax: 5,
         prefix: options.prefix,
         levels: options.levels,
-        seed: options.seed
+        seed: options.seed,
+        tokenizer: options.tokenizer
       });
     } else {
       // Legacy Unicode mode
-      phraseFreq = analyzePhrases(allDocs, options.minFreq);
+      phraseFreq = analyzePhrases(allDocs, options.minFreq, options.tokenizer);
       glyphs = generateGlyphs(phraseFreq, options.maxGlyphs);
     }
     
     // Output results
-    const output = {
+    const output = createGlyphDictionary(glyphs, {
+      tokenizer: options.tokenizer,
+      seed: options.seed,
+      prefix: options.ascii ? options.prefix : undefined,
+      levels: options.ascii ? options.levels : undefined,
       generatedAt: new Date().toISOString(),
       source: inputs,
       stats: {
@@ -597,141 +1239,280 @@ async function run(){const[,,cmd,...args]=process.argv; if(!cmd) return usage();
         totalWords: allDocs.reduce((sum, doc) => sum + doc.split(/\s+/).length, 0),
         uniquePhrases: options.ascii ? glyphs.length : (phraseFreq?.size || 0),
         generatedGlyphs: glyphs.length
-      },
-      glyphs
-    };
+      }
+    });
+    
+    let json: string;
+    try {
+      json = saveGlyphDictionary(output);
+    } catch (e) {
+      console.error((e as Error).message);
+      process.exit(1);
+    }
     
     if(options.output) {
-      fs.writeFileSync(options.output, JSON.stringify(output, null, 2));
+      fs.writeFileSync(options.output, json);
       console.log(`Generated ${glyphs.length} glyphs and saved to ${options.output}`);
     } else {
-      console.log(JSON.stringify(output, null, 2));
+      console.log(json);
     }
     return;
   }
   
-  if(cmd==='encode'){
-    const glyphFile = args.find(arg => arg.startsWith('--glyphs='))?.split('=')[1] || 
-                     args[args.indexOf('--glyphs') + 1];
+  if(cmd==='encode' || cmd==='decode' || cmd==='pack'){
+    const glyphFile = flagValue(args, '--glyphs');
     if(!glyphFile) return usage();
     
-    const glyphs = JSON.parse(fs.readFileSync(glyphFile, 'utf8'));
-    const text = fs.readFileSync(0, 'utf8'); // stdin
-    const { words, build, encode } = await import('@fractaltape/tape-core');
+    const tokenizerFlag = flagValue(args, '--tokenizer');
+    const dict = readGlyphDictionary(glyphFile, tokenizerFlag);
+    dict.tokenizer = resolveTokenizer(dict.tokenizer, tokenizerFlag);
+    const lossless = args.includes('--lossless');
     
-    const wordList = words(text);
-    const trie = build(glyphs.glyphs || glyphs);
-    const encoded = encode(wordList, trie);
+    const inputs = cmd === 'pack' ? positionalArgs(args, ['--glyphs', '--tokenizer', '--block-size', '--pattern', '-o', '--output']) : [];
+    if (inputs.length > 0) {
+      const output = flagValue(args, '-o') ?? flagValue(args, '--output');
+      const files = collectArchiveInputs(inputs, flagValue(args, '--pattern') ?? '**/*.{txt,md}');
+      const out = output ? fs.createWriteStream(output) : process.stdout;
+      const options = { lossless, entropy: args.includes('--entropy'), blockSize: numberFlag(args, '--block-size') };
+      await streamOrExit(packArchive(files, dict, options, out));
+      if (output) {
+        out.end();
+        await once(out, 'finish');
+        console.log(`Packed ${files.length} documents into ${output}`);
+      }
+      return;
+    }
     
-    process.stdout.write(encoded.join(' '));
+    // Streams keep memory flat however large stdin is
+    const stream = cmd === 'encode' ? createEncodeStream(dict, { lossless })
+      : cmd === 'decode' ? createDecodeStream(dict, { lossless })
+      : createPackStream(dict, { lossless, entropy: args.includes('--entropy'), blockSize: numberFlag(args, '--block-size') });
+    await streamOrExit(pipeline(process.stdin, stream, process.stdout));
     return;
   }
   
-  if(cmd==='decode'){
-    const glyphFile = args.find(arg => arg.startsWith('--glyphs='))?.split('=')[1] || 
-                     args[args.indexOf('--glyphs') + 1];
-    if(!glyphFile) return usage();
-    
-    const glyphs = JSON.parse(fs.readFileSync(glyphFile, 'utf8'));
-    const text = fs.readFileSync(0, 'utf8'); // stdin
-    const { decode } = await import('@fractaltape/tape-core');
-    
-    const tokens = text.split(/\s+/);
-    const decoded = decode(tokens, glyphs.glyphs || glyphs);
-    
-    process.stdout.write(decoded.join(' '));
+  if(cmd==='unpack'){
+    const source = readTapeSource(positionalArgs(args, ['--range', '-o', '--output'])[0]);
+    const outDir = flagValue(args, '-o') ?? flagValue(args, '--output');
+    if (outDir) {
+      try {
+        const docs = await extractArchive(source, outDir, { lossless: args.includes('--lossless') });
+        console.log(`Extracted ${docs.length} documents to ${outDir}`);
+      } catch (e) {
+        console.error(`Invalid .ftz file: ${(e as Error).message}`);
+        process.exit(1);
+      }
+      return;
+    }
+    const rangeFlag = flagValue(args, '--range');
+    const range = rangeFlag === undefined ? undefined : parseRange(rangeFlag);
+    let stream: ReturnType<typeof createUnpackStream>;
+    try {
+      // FTZ2 records whether it is lossless; FTZ1 relies on the flag
+      stream = createUnpackStream(source, { lossless: args.includes('--lossless'), range });
+    } catch (e) {
+      console.error(`Invalid .ftz file: ${(e as Error).message}`);
+      process.exit(1);
+    }
+    await streamOrExit(pipeline(stream, process.stdout));
     return;
   }
   
-  if(cmd==='pack'){
-    const glyphFile = args.find(arg => arg.startsWith('--glyphs='))?.split('=')[1] || 
-                     args[args.indexOf('--glyphs') + 1];
-    if(!glyphFile) return usage();
-    
-    const glyphs = JSON.parse(fs.readFileSync(glyphFile, 'utf8'));
-    const text = fs.readFileSync(0, 'utf8'); // stdin
-    const { words, build, encode } = await import('@fractaltape/tape-core');
-    
-    const wordList = words(text);
-    const trie = build(glyphs.glyphs || glyphs);
-    const encoded = encode(wordList, trie);
-    
-    // Simple .ftz format: magic + glyph count + glyphs + encoded tokens
-    const magic = 'FTZ1';
-    const glyphCount = (glyphs.glyphs || glyphs).length;
-    const glyphData = JSON.stringify(glyphs.glyphs || glyphs);
-    const tokenData = encoded.join(' ');
-    
-    const header = Buffer.alloc(8);
-    header.write(magic, 0, 4);
-    header.writeUInt32LE(glyphCount, 4);
+  if(cmd==='ls'){
+    const file = positionalArgs(args, [])[0];
+    let documents: FtzDocument[];
+    try {
+      documents = openFTZ(readTapeSource(file)).documents;
+    } catch (e) {
+      console.error(`Invalid .ftz file: ${(e as Error).message}`);
+      process.exit(1);
+    }
     
-    process.stdout.write(header);
-    process.stdout.write(glyphData);
-    process.stdout.write('\n');
-    process.stdout.write(tokenData);
+    if (args.includes('--json')) {
+      console.log(JSON.stringify(documents, null, 2));
+      return;
+    }
+    for (const d of documents) {
+      const mtime = new Date(d.mtime).toISOString().slice(0, 19).replace('T', ' ');
+      console.log(`${String(d.size).padStart(10)}  ${mtime}  ${`${d.start}:${d.end}`.padEnd(15)}  ${d.path}`);
+    }
+    if (documents.length === 0) console.log('No document table (single-stream .ftz)');
     return;
   }
   
-  if(cmd==='unpack'){
-    const data = fs.readFileSync(0); // stdin
-    const magic = data.toString('utf8', 0, 4);
-    if(magic !== 'FTZ1') {
-      console.error('Invalid .ftz file');
+  if(cmd==='inspect'){
+    const file = args.find(a => !a.startsWith('--'));
+    let layout: FtzInspection;
+    try {
+      layout = inspectFTZ(readTapeSource(file));
+    } catch (e) {
+      console.error(`${file ?? 'stdin'}: ${(e as Error).message}`);
       process.exit(1);
     }
     
-    const glyphCount = data.readUInt32LE(4);
-    const glyphDataStart = 8;
-    const glyphDataEnd = data.indexOf('\n', glyphDataStart);
-    const glyphData = data.toString('utf8', glyphDataStart, glyphDataEnd);
-    const tokenData = data.toString('utf8', glyphDataEnd + 1);
-    
-    const glyphs = JSON.parse(glyphData);
-    const tokens = tokenData.split(/\s+/);
-    const { decode } = await import('@fractaltape/tape-core');
-    
-    const decoded = decode(tokens, glyphs);
-    process.stdout.write(decoded.join(' '));
+    if (args.includes('--json')) {
+      console.log(JSON.stringify(layout, null, 2));
+    } else {
+      const flags = [layout.flags & FTZ_FLAG_LOSSLESS ? 'lossless' : '', layout.flags & FTZ_FLAG_ENTROPY ? 'entropy' : ''].filter(Boolean);
+      const tokens = layout.blocks.length ? layout.blocks[layout.blocks.length - 1].end : 0;
+      console.log(`${layout.magic} v${layout.version}, ${layout.size} bytes, flags: ${flags.join(', ') || 'none'}`);
+      console.log(`${tokens} tokens in ${layout.blocks.length} blocks`);
+      console.log('Section  Offset      Length      CRC32     Status');
+      for (const s of layout.sections) {
+        const crc = s.crc.toString(16).padStart(8, '0');
+        console.log(`${s.tag.padEnd(8)} ${String(s.offset).padEnd(11)} ${String(s.length).padEnd(11)} ${crc}  ${s.ok ? 'ok' : 'CORRUPT'}`);
+      }
+    }
+    if (layout.sections.some(s => !s.ok)) process.exit(1);
     return;
   }
 
+  if(cmd==='fgt'){
+    const [sub, ...rest] = args;
+    if(sub==='train'){
+      const {inputs, output, json, config} = parseFgtTrainArgs(rest);
+      if(inputs.length === 0) return usage();
+      const docs: string[] = [];
+      for(const input of inputs){
+        if(fs.statSync(input).isDirectory()){
+          for(const f of glob.sync('**/*.{txt,md}',{cwd:input,nodir:true}).sort()) docs.push(fs.readFileSync(path.join(input,f),'utf8'));
+        } else {
+          docs.push(fs.readFileSync(input,'utf8'));
+        }
+      }
+      
+      const startTime = Date.now();
+      const result = trainFGT(docs.join('\n'), config);
+      const trainTime = Date.now() - startTime;
+      const report = { fgt: getFGTStats(result), ...grammarReport(result.grammar), trainTime };
+      printGrammarReport(report, json);
+      if(report.errors.length > 0){
+        // saveGrammar refuses invalid grammars; the report above lists why
+        console.error(`Trained ${result.grammar.rules.size} rules from ${docs.length} documents in ${trainTime}ms; not saved (invalid grammar)`);
+        process.exit(1);
+      }
+      
+      // The grammar ships without the training stream; fgt encode produces streams for new text
+      const saved = { ...fgtGrammarFile(result, { config, generatedAt: new Date().toISOString(), source: inputs }), stream: undefined };
+      fs.writeFileSync(output, output.endsWith('.ftg') ? saveGrammarBinary(saved) : saveGrammar(saved));
+      console.error(`Trained ${result.grammar.rules.size} rules from ${docs.length} documents in ${trainTime}ms and saved to ${output}`);
+      return;
+    }
+    if(sub==='encode'){
+      const grammarFile = flagValue(rest, '--grammar');
+      if(!grammarFile) return usage();
+      const format = flagValue(rest, '--format') ?? 'text';
+      if(!['text', 'json', 'binary'].includes(format)){
+        console.error(`Invalid --format "${format}" (expected text, json or binary)`);
+        process.exit(1);
+      }
+      const numbers = ['--delta', '--lambda'].map(name => {
+        const value = flagValue(rest, name);
+        const n = Number(value ?? 0);
+        if(!Number.isFinite(n) || n < 0){
+          console.error(`Invalid ${name} "${value}" (expected a non-negative number)`);
+          process.exit(1);
+        }
+        return value === undefined ? undefined : n;
+      });
+      const {grammar: base, meta} = readFgtGrammar(grammarFile);
+      const input = positionalArgs(rest, ['--grammar', '--format', '--delta', '--lambda'])[0];
+      const text = fs.readFileSync(input ?? 0, 'utf8');
+      const {stream, delta, grammar} = applyGrammar(base, text, {
+        tokenizer: meta?.config?.tokenizer, deltaIterations: numbers[0], lambda: numbers[1] ?? meta?.config?.lambda,
+        costModel: meta?.config?.costModel
+      });
+      if(delta.rules.size > 0) console.error(`Added ${delta.rules.size} delta rules`);
+      if(format === 'binary') process.stdout.write(saveGrammarBinary({ grammar, stream, meta }));
+      else process.stdout.write((format === 'json' ? saveGrammar({ grammar, stream, meta }) : encodeFGT({ grammar, stream })) + '\n');
+      return;
+    }
+    if(sub==='expand'){
+      const input = positionalArgs(rest, [])[0];
+      const data = fs.readFileSync(input ?? 0);
+      // Binary and JSON grammar files carry their stream; anything else is the DEF/STREAM text form
+      const serialized = isBinaryGrammar(data) || data.toString('utf8').trimStart().startsWith('{');
+      let tokens: string[];
+      try {
+        if(serialized){
+          const {grammar, stream} = loadGrammar(data);
+          tokens = expandStream(grammar, stream ?? []);
+        } else {
+          tokens = decodeFGT(data.toString('utf8'));
+        }
+      } catch (e) {
+        console.error(`${input ?? 'stdin'}: ${(e as Error).message}`);
+        process.exit(1);
+      }
+      process.stdout.write(tokens.join(' ') + '\n');
+      return;
+    }
+    if(sub==='stats'){
+      const grammarFile = positionalArgs(rest, [])[0];
+      if(!grammarFile) return usage();
+      const {grammar, meta} = readFgtGrammar(grammarFile);
+      // readFgtGrammar has already rejected invalid grammars, so errors is empty here
+      printGrammarReport({ config: meta?.config, ...grammarReport(grammar), training: meta?.stats }, rest.includes('--json'));
+      return;
+    }
+    if(sub==='bench'){
+      const [tokens, vocab, iterations] = (['--tokens', '--vocab', '--iterations'] as const).map((name, i) => {
+        const value = flagValue(rest, name);
+        const n = value === undefined ? [10_000_000, 50_000, 1000][i] : Number(value);
+        if(!Number.isInteger(n) || n < 1){
+          console.error(`Invalid ${name} "${value}" (expected a positive integer)`);
+          process.exit(1);
+        }
+        return n;
+      });
+      const model = getCostModel(flagValue(rest, '--cost-model') ?? 'entropy');
+      const results = benchRepair(tokens, vocab, iterations, model);
+      if(rest.includes('--json')){
+        console.log(JSON.stringify({ vocab, iterations, costModel: model.name, results }));
+        return;
+      }
+      console.log(`runRepair, ${vocab} distinct tokens, up to ${iterations} rules, ${model.name} cost model`);
+      for(const r of results){
+        console.log(`  ${String(r.tokens).padStart(10)} tokens: ${r.repairMs}ms (${r.tokensPerSecond} tokens/s), ${r.rules} rules, ` +
+          `${r.streamTokens} tokens left; rescanning RePair ~${r.rescanEstimateMs}ms (${r.scanMs}ms per rule)`);
+      }
+      return;
+    }
+    return usage();
+  }
+  
   if(cmd==='bitmap'){
     const {options} = parseBitmapArgs(args);
+    const db = tape();
     
     if(options.build) {
       console.log('Building bitmap index...');
-      const store = openStore('tape.db');
+      const store = openStore(db);
       const startTime = Date.now();
       const index = buildBitmapIndexFromStore(store);
+      saveBitmapIndex(store, index);
       const buildTime = Date.now() - startTime;
       
       console.log(`Bitmap index built in ${buildTime}ms`);
       console.log('Stats:', bitmapStats(index));
-      
-      // Save index for future use
-      const indexData = {
-        totalDocs: index.totalDocs,
-        totalTokens: index.tokenToDocs.size,
-        buildTime,
-        generatedAt: new Date().toISOString()
-      };
-      fs.writeFileSync('bitmap-index.json', JSON.stringify(indexData, null, 2));
-      console.log('Index metadata saved to bitmap-index.json');
+      console.log(`Index saved to ${db} (${index.tokenToDocs.size} token bitmaps, generation ${store.generation()})`);
       
       store.close();
       return;
     }
     
     if(options.stats) {
-      if(!fs.existsSync('bitmap-index.json')) {
+      const store = openStore(db);
+      if(bitmapIndexGeneration(store) === null) {
         console.log('Bitmap index not found. Run "tape bitmap --build" first.');
+        store.close();
         return;
       }
-      
-      const store = openStore('tape.db');
-      const index = buildBitmapIndexFromStore(store);
-      const stats = bitmapStats(index);
+      const persisted = loadBitmapIndex(store, true);
+      if (!persisted) {
+        console.log(`Warning: the bitmap index in ${db} is stale (the tape changed since it was built). Run "tape bitmap --build".`);
+      }
+      const stats = bitmapStats(persisted ?? buildBitmapIndexFromStore(store));
       
       console.log('Bitmap Index Statistics:');
       console.log(`  Total tokens: ${stats.totalTokens}`);
@@ -744,17 +1525,21 @@ async function run(){const[,,cmd,...args]=process.argv; if(!cmd) return usage();
     }
     
     if(options.test) {
-      const store = openStore('tape.db');
-      const index = buildBitmapIndexFromStore(store);
-      const tokens = encodeTextToTokens(options.test);
+      const store = openStore(db);
+      const persisted = hasCurrentBitmapIndex(store);
+      const index = openBitmapIndex(store);
+      // Each term is a group of tokens: one, or the expansions of a refund* / refnd~1 pattern
+      const groups = queryTerms(store, options.test).map(t => termAlternatives(t).flat());
+      const tokens = groups.flat();
       
       console.log(`Testing query: "${options.test}"`);
       console.log(`Tokens: [${tokens.join(', ')}]`);
+      console.log(`Index: ${persisted ? 'persisted' : 'built in memory (run "tape bitmap --build" to persist it)'}`);
       
       // Test bitmap performance
       const startTime = Date.now();
       const bitmapDocs = options.mode === 'intersection' 
-        ? intersectTokenDocs(index, tokens)
+        ? groups.every(g => g.length === 1) ? intersectTokenDocs(index, tokens) : groups.map(g => unionTokenDocs(index, g)).reduce(intersectDocs)
         : unionTokenDocs(index, tokens);
       const bitmapTime = Date.now() - startTime;
       
@@ -762,7 +1547,7 @@ async function run(){const[,,cmd,...args]=process.argv; if(!cmd) return usage();
       const startTime2 = Date.now();
       let traditionalDocs: number[];
       if (options.mode === 'intersection') {
-        const tokenSets = tokens.map(t => new Set(store.postings(t, 100000)));
+        const tokenSets = groups.map(g => new Set(g.flatMap(t => store.postings(t, 100000))));
         traditionalDocs = Array.from(tokenSets[0]).filter(addr => 
           tokenSets.every(set => set.has(addr))
         ).map(addr => store.addressToDoc(addr));
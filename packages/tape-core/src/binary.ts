@@ -0,0 +1,128 @@
+/**
+ * Byte-level helpers for binary tape formats: varints, fixed-width integers, CRC32
+ */
+
+export interface ByteWriter {
+  length(): number;
+  byte(b: number): void;
+  u16(n: number): void;
+  u32(n: number): void;
+  u64(n: number): void;
+  varint(n: number): void;
+  bytes(data: Uint8Array): void;
+  string(s: string): void;
+  finish(): Uint8Array;
+}
+
+export interface ByteReader {
+  pos: number;
+  end: number;
+  byte(): number;
+  u16(): number;
+  u32(): number;
+  u64(): number;
+  varint(): number;
+  bytes(n: number): Uint8Array;
+  string(): string;
+  eof(): boolean;
+}
+
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Create a growable little-endian byte writer
+ * @param capacity - Initial buffer size in bytes
+ */
+export function createWriter(capacity: number = 1024): ByteWriter {
+  let buf = new Uint8Array(capacity);
+  let len = 0;
+  
+  const ensure = (n: number) => {
+    if (len + n <= buf.length) return;
+    let size = buf.length * 2;
+    while (size < len + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(buf.subarray(0, len));
+    buf = next;
+  };
+  
+  const w: ByteWriter = {
+    length: () => len,
+    byte(b) { ensure(1); buf[len++] = b & 0xff; },
+    u16(n) { w.byte(n); w.byte(n >>> 8); },
+    u32(n) { w.u16(n & 0xffff); w.u16(n >>> 16); },
+    u64(n) { w.u32(n % 0x100000000); w.u32(Math.floor(n / 0x100000000)); },
+    varint(n) {
+      if (!Number.isSafeInteger(n) || n < 0) throw new Error(`Cannot encode varint ${n}`);
+      while (n >= 0x80) {
+        w.byte((n % 0x80) | 0x80);
+        n = Math.floor(n / 0x80);
+      }
+      w.byte(n);
+    },
+    bytes(data) { ensure(data.length); buf.set(data, len); len += data.length; },
+    string(s) { const b = utf8Encoder.encode(s); w.varint(b.length); w.bytes(b); },
+    finish: () => buf.slice(0, len)
+  };
+  return w;
+}
+
+/**
+ * Create a little-endian reader over a byte range
+ * @param data - Source bytes
+ * @param start - First byte to read
+ * @param end - One past the last readable byte
+ * @throws Error when reading past end
+ */
+export function createReader(data: Uint8Array, start: number = 0, end: number = data.length): ByteReader {
+  const need = (r: ByteReader, n: number) => {
+    if (r.pos + n > r.end) throw new Error(`Unexpected end of data at byte ${r.pos}`);
+  };
+  
+  const r: ByteReader = {
+    pos: start,
+    end,
+    byte() { need(r, 1); return data[r.pos++]; },
+    u16() { return r.byte() | (r.byte() << 8); },
+    u32() { return (r.u16() | (r.u16() << 16)) >>> 0; },
+    u64() { const lo = r.u32(); return lo + r.u32() * 0x100000000; },
+    varint() {
+      let n = 0;
+      let scale = 1;
+      for (;;) {
+        const b = r.byte();
+        n += (b & 0x7f) * scale;
+        if ((b & 0x80) === 0) return n;
+        scale *= 0x80;
+        if (scale > Number.MAX_SAFE_INTEGER) throw new Error(`Varint too long at byte ${r.pos}`);
+      }
+    },
+    bytes(n) { need(r, n); const out = data.subarray(r.pos, r.pos + n); r.pos += n; return out; },
+    string() { return utf8Decoder.decode(r.bytes(r.varint())); },
+    eof: () => r.pos >= r.end
+  };
+  return r;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 (IEEE 802.3, as used by zip/png)
+ * @param data - Bytes to checksum
+ * @param crc - Running CRC from a previous call, for incremental use
+ * @returns Unsigned 32-bit checksum
+ */
+export function crc32(data: Uint8Array, crc: number = 0): number {
+  let c = (crc ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
@@ -1,6 +1,8 @@
 import pkg from 'roaring';
 const { RoaringBitmap32 } = pkg;
+import type Database from 'better-sqlite3';
 import type { Address, DocID, Token } from './types.js';
+import type { TapeStore } from './store.js';
 
 type RoaringBitmap = InstanceType<typeof RoaringBitmap32>;
 
@@ -18,7 +20,11 @@ export function createBitmapIndex(): BitmapIndex {
   };
 }
 
-export function addTokenToDoc(index: BitmapIndex, token: Token, doc: DocID): void {
+/**
+ * Record that a token occurs in a document
+ * @param id - The token's ID from the tape's token dictionary (TapeStore.tokenId)
+ */
+export function addTokenToDoc(index: BitmapIndex, token: Token, doc: DocID, id: number): void {
   // Add token to doc mapping
   if (!index.tokenToDocs.has(token)) {
     index.tokenToDocs.set(token, new RoaringBitmap32());
@@ -29,22 +35,7 @@ export function addTokenToDoc(index: BitmapIndex, token: Token, doc: DocID): voi
   if (!index.docToTokens.has(doc)) {
     index.docToTokens.set(doc, new RoaringBitmap32());
   }
-  index.docToTokens.get(doc)!.add(tokenToId(token));
-}
-
-export function tokenToId(token: Token): number {
-  // Simple hash function to convert token to numeric ID
-  let hash = 0;
-  for (let i = 0; i < token.length; i++) {
-    const char = token.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash);
-}
-
-export function idToToken(id: number, tokenMap: Map<number, Token>): Token | null {
-  return tokenMap.get(id) || null;
+  index.docToTokens.get(doc)!.add(id);
 }
 
 export function getDocsForToken(index: BitmapIndex, token: Token): number[] {
@@ -52,6 +43,7 @@ export function getDocsForToken(index: BitmapIndex, token: Token): number[] {
   return bitmap ? Array.from(bitmap) : [];
 }
 
+/** IDs of the tokens in a document (resolve them with TapeStore.tokenById) */
 export function getTokensForDoc(index: BitmapIndex, doc: DocID): number[] {
   const bitmap = index.docToTokens.get(doc);
   return bitmap ? Array.from(bitmap) : [];
@@ -91,25 +83,31 @@ export function unionTokenDocs(index: BitmapIndex, tokens: Token[]): number[] {
   return Array.from(result);
 }
 
-export function buildBitmapIndexFromStore(store: any): BitmapIndex {
+export function intersectDocs(a: number[], b: number[]): number[] {
+  return Array.from(RoaringBitmap32.and(new RoaringBitmap32(a), new RoaringBitmap32(b)));
+}
+
+export function unionDocs(a: number[], b: number[]): number[] {
+  return Array.from(RoaringBitmap32.or(new RoaringBitmap32(a), new RoaringBitmap32(b)));
+}
+
+/** Docs in `include` that are not in `exclude` (AND NOT) */
+export function differenceDocs(include: number[], exclude: number[]): number[] {
+  return Array.from(RoaringBitmap32.andNot(new RoaringBitmap32(include), new RoaringBitmap32(exclude)));
+}
+
+export function buildBitmapIndexFromStore(store: TapeStore): BitmapIndex {
   const index = createBitmapIndex();
-  const tokenMap = new Map<number, Token>();
   
-  // Get all unique tokens and their postings
-  const tokens = store.db.prepare('SELECT DISTINCT token FROM tokens').all() as {token: string}[];
+  // Every posted token is in the token dictionary
+  const tokens = store.db.prepare('SELECT id, token FROM token_ids').all() as {id: number, token: string}[];
   
-  for (const {token} of tokens) {
-    const tokenId = tokenToId(token);
-    tokenMap.set(tokenId, token);
-    
+  for (const {id, token} of tokens) {
     const addresses = store.postings(token, 1000000);
-    const docs = new Set<number>();
     
     for (const addr of addresses) {
       try {
-        const doc = store.addressToDoc(addr);
-        docs.add(doc);
-        addTokenToDoc(index, token, doc);
+        addTokenToDoc(index, token, store.addressToDoc(addr), id);
       } catch (e) {
         // Skip invalid addresses
         continue;
@@ -121,6 +119,123 @@ export function buildBitmapIndexFromStore(store: any): BitmapIndex {
   return index;
 }
 
+/** tape_meta key holding the tape generation the bitmap_index table matches */
+const INDEX_GENERATION = 'bitmapIndexGeneration';
+
+/**
+ * Token bitmaps read from the bitmap_index table on first use
+ * - iterating or `size` only sees the tokens looked up so far
+ */
+class PersistedBitmaps extends Map<Token, RoaringBitmap> {
+  private readonly missing = new Set<Token>();
+  private readonly select: Database.Statement;
+
+  constructor(store: TapeStore) {
+    super();
+    this.select = store.db.prepare('SELECT docs FROM bitmap_index WHERE token_id = (SELECT id FROM token_ids WHERE token = ?)');
+  }
+
+  get(token: Token): RoaringBitmap | undefined {
+    if (super.has(token) || this.missing.has(token)) return super.get(token);
+    const row = this.select.get(token) as { docs: Buffer } | undefined;
+    if (!row) {
+      this.missing.add(token);
+      return undefined;
+    }
+    const bitmap = RoaringBitmap32.deserialize(row.docs, true);
+    super.set(token, bitmap);
+    return bitmap;
+  }
+
+  has(token: Token): boolean {
+    return this.get(token) !== undefined;
+  }
+}
+
+/**
+ * Persist an index's token bitmaps (portable roaring format) in the tape's bitmap_index table,
+ * keyed by token ID, replacing what was there, and mark it current for the tape's generation
+ * @param store - Open tape store
+ * @param index - Index built from this store
+ */
+export function saveBitmapIndex(store: TapeStore, index: BitmapIndex): void {
+  const put = store.db.prepare('INSERT INTO bitmap_index(token_id, docs) VALUES((SELECT id FROM token_ids WHERE token = ?), ?)');
+  store.db.transaction(() => {
+    store.db.exec('DELETE FROM bitmap_index');
+    for (const [token, bitmap] of index.tokenToDocs) put.run(token, bitmap.serialize(true));
+    markBitmapIndexCurrent(store);
+  })();
+}
+
+/**
+ * Generation of the tape the persisted index was last brought up to date with
+ * @returns The generation, or null if the index was never saved
+ */
+export function bitmapIndexGeneration(store: TapeStore): number | null {
+  const raw = store.getMeta(INDEX_GENERATION);
+  return raw === null ? null : Number(raw);
+}
+
+/** Whether the persisted index matches the tape as it is now */
+export function hasCurrentBitmapIndex(store: TapeStore): boolean {
+  return bitmapIndexGeneration(store) === store.generation();
+}
+
+/** Record that the persisted index matches the tape's current generation */
+export function markBitmapIndexCurrent(store: TapeStore): void {
+  store.setMeta(INDEX_GENERATION, String(store.generation()));
+}
+
+/**
+ * Load the persisted index; token bitmaps are read lazily as they are looked up
+ * - `docToTokens` is left empty (it is only needed while building)
+ * @param store - Open tape store
+ * @param eager - Read every token bitmap up front (for statistics)
+ * @returns The index, or null if none was saved or the tape changed since
+ */
+export function loadBitmapIndex(store: TapeStore, eager = false): BitmapIndex | null {
+  if (!hasCurrentBitmapIndex(store)) return null;
+  const tokenToDocs = new PersistedBitmaps(store);
+  if (eager) {
+    const rows = store.db.prepare('SELECT i.token FROM bitmap_index b JOIN token_ids i ON i.id = b.token_id').all() as { token: Token }[];
+    for (const { token } of rows) tokenToDocs.get(token);
+  }
+  return { tokenToDocs, docToTokens: new Map(), totalDocs: store.nextDoc() };
+}
+
+/**
+ * The persisted index if it is current, otherwise one built in memory from the store
+ * @param store - Open tape store
+ */
+export function openBitmapIndex(store: TapeStore): BitmapIndex {
+  return loadBitmapIndex(store) ?? buildBitmapIndexFromStore(store);
+}
+
+/**
+ * Add or remove one document in the persisted bitmaps of its distinct tokens
+ * - call while the document's tokens are still on the tape, then markBitmapIndexCurrent once the change is done
+ * @param store - Open tape store
+ * @param doc - Document to add (after its tokens are written) or remove (before they are deleted)
+ * @param remove - Remove the document instead of adding it
+ */
+export function updateBitmapIndex(store: TapeStore, doc: DocID, remove = false): void {
+  const bounds = store.db.prepare('SELECT start, end FROM doc_bounds WHERE doc = ?').get(doc) as { start: number; end: number } | undefined;
+  if (!bounds) return;
+  const get = store.db.prepare('SELECT docs FROM bitmap_index WHERE token_id = ?');
+  const put = store.db.prepare('INSERT OR REPLACE INTO bitmap_index(token_id, docs) VALUES(?, ?)');
+  const drop = store.db.prepare('DELETE FROM bitmap_index WHERE token_id = ?');
+  store.db.transaction(() => {
+    for (const token of new Set(store.tokensInRange(bounds.start, bounds.end))) {
+      const id = store.tokenId(token);
+      if (id === null) continue;
+      const row = get.get(id) as { docs: Buffer } | undefined;
+      const bitmap = row ? RoaringBitmap32.deserialize(row.docs, true) : new RoaringBitmap32();
+      if (remove) bitmap.remove(doc); else bitmap.add(doc);
+      if (bitmap.isEmpty) drop.run(id); else put.run(id, bitmap.serialize(true));
+    }
+  })();
+}
+
 export function bitmapStats(index: BitmapIndex): {
   totalTokens: number;
   totalDocs: number;
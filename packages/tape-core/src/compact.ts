@@ -0,0 +1,118 @@
+import fs from 'node:fs';
+import type { TapeStore } from './store.js';
+import { minDepthForSlots } from './address.js';
+import { hasCurrentBitmapIndex, markBitmapIndexCurrent } from './bitmap.js';
+
+/** Result of compacting a tape */
+export interface CompactStats {
+  addressesBefore: number;
+  addressesAfter: number;
+  tokens: number;
+  postingsBefore: number;
+  postingsAfter: number;
+  depthD: number;
+  bytesBefore: number;
+  bytesAfter: number;
+  reclaimedBytes: number;
+}
+
+/** A file derived from the tape (JSON export, bitmap index) and the generation it was built from */
+export interface TapeArtifact {
+  path: string;
+  kind: string;
+  generation: number;
+}
+
+/**
+ * Renumber addresses so documents sit back to back from 0, rebuild postings and
+ * recompute depthD, then vacuum the database. Document IDs are kept; tokens that
+ * belong to no document (left behind by older deletes) are dropped, along with the
+ * token IDs and bitmaps of words that no longer occur anywhere.
+ * @param store - Open tape store
+ * @returns Address, posting and on-disk size before and after
+ */
+export function compactStore(store: TapeStore): CompactStats {
+  const { db } = store;
+  const count = (sql: string) => (db.prepare(sql).get() as { c: number }).c;
+  const addressesBefore = store.nextAddress();
+  const postingsBefore = count('SELECT COUNT(*) as c FROM postings');
+  const bytesBefore = databaseSize(db.name);
+
+  const bounds = db.prepare('SELECT doc,start,end FROM doc_bounds ORDER BY start ASC, doc ASC').all() as { doc: number; start: number; end: number }[];
+  db.exec('CREATE TEMP TABLE IF NOT EXISTS compact_tokens(addr INTEGER PRIMARY KEY, token TEXT); DELETE FROM compact_tokens;');
+  const setBounds = db.prepare('UPDATE doc_bounds SET start = ?, end = ? WHERE doc = ?');
+  const copy = db.prepare('INSERT INTO compact_tokens(addr,token) SELECT addr - ?, token FROM tokens WHERE addr >= ? AND addr < ?');
+
+  const tokensBefore = store.count();
+  const indexed = hasCurrentBitmapIndex(store);
+  let next = 0;
+  let moved = false;
+  db.transaction(() => {
+    for (const b of bounds) {
+      moved ||= b.start !== next;
+      copy.run(b.start - next, b.start, b.end);
+      setBounds.run(next, next + b.end - b.start, b.doc);
+      next += b.end - b.start;
+    }
+    db.exec(`DELETE FROM tokens; INSERT INTO tokens(addr,token) SELECT addr, token FROM compact_tokens;
+             DELETE FROM compact_tokens;
+             DELETE FROM postings;
+             INSERT INTO postings(token_id,addr) SELECT i.id, t.addr FROM tokens t JOIN token_ids i ON i.token = t.token ORDER BY t.addr;
+             DELETE FROM token_ids WHERE id NOT IN (SELECT DISTINCT token_id FROM postings);
+             DELETE FROM bitmap_index WHERE token_id NOT IN (SELECT id FROM token_ids);`);
+    // Addresses only change if a document moved or orphaned tokens were dropped
+    if (moved || store.count() !== tokensBefore) store.bumpGeneration();
+    // The bitmap index maps tokens to doc IDs, which compaction keeps
+    if (indexed) markBitmapIndexCurrent(store);
+  })();
+
+  db.pragma('wal_checkpoint(TRUNCATE)');
+  db.exec('VACUUM');
+  db.pragma('wal_checkpoint(TRUNCATE)');
+  const bytesAfter = databaseSize(db.name);
+  return {
+    addressesBefore, addressesAfter: next,
+    tokens: store.count(),
+    postingsBefore, postingsAfter: count('SELECT COUNT(*) as c FROM postings'),
+    depthD: minDepthForSlots(next),
+    bytesBefore, bytesAfter,
+    reclaimedBytes: Math.max(0, bytesBefore - bytesAfter)
+  };
+}
+
+/**
+ * Remember that a file was built from the tape's current generation
+ * @param store - Open tape store
+ * @param path - Path of the written file
+ * @param kind - What the file is ('JSON export', 'bitmap index', ...)
+ */
+export function recordArtifact(store: TapeStore, path: string, kind: string): void {
+  const artifacts = readArtifacts(store);
+  artifacts[path] = { kind, generation: store.generation() };
+  store.setMeta('artifacts', JSON.stringify(artifacts));
+}
+
+/**
+ * List recorded files that were built from an older generation of the tape and still exist
+ * @param store - Open tape store
+ * @returns Stale artifacts, oldest path order preserved
+ */
+export function staleArtifacts(store: TapeStore): TapeArtifact[] {
+  const generation = store.generation();
+  return Object.entries(readArtifacts(store))
+    .filter(([path, a]) => a.generation < generation && fs.existsSync(path))
+    .map(([path, a]) => ({ path, ...a }));
+}
+
+function readArtifacts(store: TapeStore): Record<string, { kind: string; generation: number }> {
+  const raw = store.getMeta('artifacts');
+  return raw ? JSON.parse(raw) : {};
+}
+
+function databaseSize(file: string): number {
+  let size = 0;
+  for (const f of [file, `${file}-wal`]) {
+    if (fs.existsSync(f)) size += fs.statSync(f).size;
+  }
+  return size;
+}
@@ -1,50 +1,85 @@
 import { buildTrie, encodeWithTrie, DEFAULT_GLYPHS } from './glyph.js';
 import { normalizeWords } from './utils.js';
+import { getTokenizer, DEFAULT_TOKENIZER } from './tokenize.js';
 import { minDepthForSlots } from './address.js';
-import type { IngestStats, Address, Token } from './types.js';
+import type { IngestStats, IngestDoc, Address, Token } from './types.js';
 import type { GlyphEntry } from './trainer.js';
-import { openStore } from './store.js';
-export function encodeTextToTokens(text:string,glyphs:GlyphEntry[]=DEFAULT_GLYPHS){const words=normalizeWords(text);const trie=buildTrie(glyphs);return encodeWithTrie(words,trie);}
-export function ingestDocsToStore(docs:string[],dbPath='tape.db',glyphs:GlyphEntry[]=DEFAULT_GLYPHS):IngestStats{
+import { openStore, type TapeStore } from './store.js';
+import { hasCurrentBitmapIndex, markBitmapIndexCurrent, updateBitmapIndex } from './bitmap.js';
+import { createHash } from 'node:crypto';
+export function encodeTextToTokens(text:string,glyphs:GlyphEntry[]=DEFAULT_GLYPHS,tokenizer:string=DEFAULT_TOKENIZER){const words=normalizeWords(text,getTokenizer(tokenizer));const trie=buildTrie(glyphs);return encodeWithTrie(words,trie);}
+/** What to do with a document whose source path is already on the tape but whose content changed */
+export type ExistingDocPolicy='skip'|'replace';
+export interface IngestOptions{ existing?:ExistingDocPolicy; }
+
+/**
+ * Append documents to a tape, continuing after its last address and doc ID
+ * - A document whose content hash (and source, if given) is already on the tape is skipped
+ * - A changed document with a known source is replaced (or skipped with existing:'skip')
+ * - A persisted bitmap index that was current stays current
+ * @returns Cumulative stats for the whole tape plus what this run did
+ */
+export function ingestDocsToStore(docs:(string|IngestDoc)[],dbPath='tape.db',glyphs:GlyphEntry[]=DEFAULT_GLYPHS,tokenizer:string=DEFAULT_TOKENIZER,options:IngestOptions={}):IngestStats{
+  const tok=getTokenizer(tokenizer);
   const store=openStore(dbPath);
   
+  // Queries must tokenize the same way the tape was written
+  const recorded=store.getMeta('tokenizer');
+  if(recorded&&recorded!==tok.name){store.close(); throw new Error(`Tape was ingested with tokenizer "${recorded}", not "${tok.name}"`);}
+  store.setMeta('tokenizer',tok.name);
+  
   // Batch insert glyphs
   const glyphEntries: Array<[string, string]> = glyphs.map(g => [g.glyph, g.phrase.join(' ')]);
   store.batchGlyphs(glyphEntries);
   
-  let addr=0,pre=0,post=0;
-  const BATCH_SIZE = 1000; // Process in batches of 1000
-  
-  for(let doc=0; doc<docs.length; doc++){
-    const words=normalizeWords(docs[doc]); 
-    pre+=words.length;
-    const toks=encodeTextToTokens(docs[doc],glyphs); 
-    post+=toks.length;
-    const start=addr;
-    
-    // Batch insert tokens and postings
-    const tokenEntries: Array<[Address, Token]> = [];
-    const postingEntries: Array<[Token, Address]> = [];
-    
-    for(const t of toks){
-      tokenEntries.push([addr, t]);
-      postingEntries.push([t, addr]);
-      addr++;
-    }
-    
-    // Insert in batches
-    for(let i = 0; i < tokenEntries.length; i += BATCH_SIZE) {
-      const tokenBatch = tokenEntries.slice(i, i + BATCH_SIZE);
-      const postingBatch = postingEntries.slice(i, i + BATCH_SIZE);
-      store.batchTokens(tokenBatch);
-      store.batchPostings(postingBatch);
-    }
+  const indexed=hasCurrentBitmapIndex(store);
+  let addr=store.nextAddress(),doc=store.nextDoc(),added=0,skipped=0,replaced=0;
+  for(const input of docs){
+    const {text,source=null}=typeof input==='string'?{text:input}:input;
+    const hash=createHash('sha256').update(text).digest('hex');
+    const known=source!==null?store.findDocBySource(source):store.findDocByHash(hash);
+    if(known&&(known.hash===hash||options.existing==='skip')){skipped++; continue;}
     
-    store.addDocBounds(doc,start,addr);
+    store.db.transaction(()=>{
+      if(known){if(indexed) updateBitmapIndex(store,known.doc,true); store.removeDoc(known.doc); replaced++;} else added++;
+      const words=appendDoc(store,text,addr,glyphs,tok.name);
+      store.addDocBounds(doc,addr,addr+words.post);
+      store.setDocSource(doc,source,hash,words.pre);
+      if(indexed) updateBitmapIndex(store,doc);
+      addr+=words.post; doc++;
+    })();
   }
   
-  const D=minDepthForSlots(addr); 
-  const u=store.db.prepare('SELECT COUNT(DISTINCT token) as u FROM tokens').get() as {u:number};
+  if(added+replaced>0) store.bumpGeneration();
+  if(indexed) markBitmapIndexCurrent(store);
+  const stats=tapeStats(store);
   store.close(); 
-  return {docs:docs.length,tokensPre:pre,tokensPost:post,uniqueTokens:u.u,depthD:D};
-}
\ No newline at end of file
+  return {...stats,added,skipped,replaced};
+}
+
+const BATCH_SIZE = 1000; // Process in batches of 1000
+
+/** Write one document's tokens and postings starting at addr; returns word counts before/after glyphing */
+function appendDoc(store:TapeStore,text:string,addr:Address,glyphs:GlyphEntry[],tokenizer:string):{pre:number,post:number}{
+  const pre=normalizeWords(text,getTokenizer(tokenizer)).length;
+  const toks=encodeTextToTokens(text,glyphs,tokenizer);
+  
+  // Batch insert tokens and postings
+  const tokenEntries: Array<[Address, Token]> = toks.map((t,i)=>[addr+i,t]);
+  const postingEntries: Array<[Token, Address]> = toks.map((t,i)=>[t,addr+i]);
+  for(let i = 0; i < tokenEntries.length; i += BATCH_SIZE) {
+    store.batchTokens(tokenEntries.slice(i, i + BATCH_SIZE));
+    store.batchPostings(postingEntries.slice(i, i + BATCH_SIZE));
+  }
+  return {pre,post:toks.length};
+}
+
+/**
+ * Totals for the whole tape; docs ingested before word counts were recorded count their tokens instead
+ */
+export function tapeStats(store:TapeStore):IngestStats{
+  const docs=store.docs();
+  const pre=docs.reduce((n,d)=>n+(d.words??d.end-d.start),0);
+  const u=store.db.prepare('SELECT COUNT(DISTINCT token) as u FROM tokens').get() as {u:number};
+  return {docs:docs.length,tokensPre:pre,tokensPost:store.count(),uniqueTokens:u.u,depthD:minDepthForSlots(store.nextAddress())};
+}
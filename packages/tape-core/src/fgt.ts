@@ -4,11 +4,13 @@
 
 import type { Rule, Grammar } from './mdl.js';
 import type { Path } from './path.js';
-import { createGrammar, addRule } from './mdl.js';
-import { defineSymbol, expandStream } from './grammar.js';
-import { mineHighOrder } from './mine.js';
-import { runHybridInduction } from './repair.js';
+import { createGrammar, addRule, getCostModel, totalMdlCost, mdlGain, costContext } from './mdl.js';
+import { createRule, defineSymbol, expandStream, expandSymbol, escapeGrammarLiteral } from './grammar.js';
+import { mineNgrams } from './mine.js';
+import { runHybridInduction, runRepair } from './repair.js';
+import { build as buildTrie, type Trie } from './trie.js';
 import { nextAvailablePath } from './path.js';
+import { words, getTokenizer } from './tokenize.js';
 
 export interface FGTConfig {
   topK: number;           // Top K candidates from mining
@@ -16,8 +18,10 @@ export interface FGTConfig {
   nMax: number;           // Maximum n-gram size
   maxIterations: number;  // Maximum repair iterations
   lambda: number;         // Rule cost penalty factor
-  minGain: number;        // Minimum gain threshold
+  minGain: number;        // Minimum MDL gain (under the cost model) for a mined phrase
   minFreq: number;        // Minimum frequency threshold
+  tokenizer?: string;     // Tokenizer name (see getTokenizer)
+  costModel?: string;     // Cost model name (see getCostModel)
 }
 
 export interface FGTResult {
@@ -27,6 +31,7 @@ export interface FGTResult {
   compressionRatio: number;
   totalSavings: number;
   iterations: number;
+  costModel: string;      // Cost model the sizes were measured with
   stats: {
     rulesCreated: number;
     maxDepth: number;
@@ -56,39 +61,45 @@ export const DEFAULT_FGT_CONFIG: FGTConfig = {
  */
 export function trainFGT(text: string, config: FGTConfig = DEFAULT_FGT_CONFIG): FGTResult {
   // Tokenize input
-  const tokens = text.toLowerCase()
-    .replace(/[^a-z0-9\s']/g, ' ')
-    .split(/\s+/)
-    .filter(Boolean);
+  const tokens = words(text, getTokenizer(config.tokenizer));
+  const model = getCostModel(config.costModel);
   
   // Initialize grammar and stream
   const grammar = createGrammar();
-  let stream: Path[] = [...tokens]; // Start with word symbols
+  let stream: Path[] = tokens.map(escapeGrammarLiteral); // Start with word symbols (never mistaken for rule paths)
   let iterations = 0;
   
-  // Phase 1: High-order mining
-  const candidates = mineHighOrder(tokens, config.topK);
-  const filteredCandidates = candidates.filter(c => 
-    c.gain >= config.minGain && c.frequency >= config.minFreq
-  );
+  // Phase 1: High-order mining, phrases ranked by MDL gain under the same cost model as phase 2
+  // (scored against the first free path, like RePair pairs)
+  const placeholder = nextAvailablePath(grammar.symbols);
+  const context = costContext(grammar, stream, 1);
+  const candidates = mineNgrams(tokens, config.nMin, config.nMax)
+    .filter(c => c.frequency >= config.minFreq)
+    .map(c => {
+      const children = c.phrase.map(escapeGrammarLiteral); // Words as child symbols
+      const rule = createRule(placeholder, children, children, c.frequency);
+      return { children, frequency: c.frequency, gain: mdlGain(rule, c.frequency, config.lambda, model, context) };
+    })
+    .filter(c => c.gain >= config.minGain)
+    .sort((a, b) => b.gain - a.gain || b.children.length - a.children.length || b.frequency - a.frequency)
+    .slice(0, config.topK);
   
   // Add top candidates as rules
-  for (const candidate of filteredCandidates) {
-    const children = candidate.phrase.map(word => word); // Words as child symbols
-    const symbol = defineSymbol(grammar, children, candidate.phrase, candidate.frequency);
+  for (const candidate of candidates) {
+    const symbol = defineSymbol(grammar, candidate.children, candidate.children, candidate.frequency);
     
     if (symbol) {
       // Replace occurrences in stream
-      stream = replacePhraseInStream(stream, candidate.phrase, symbol);
+      stream = replacePhraseInStream(stream, candidate.children, symbol);
     }
   }
   
   // Phase 2: RePair/Sequitur induction
-  const finalStream = runHybridInduction(grammar, stream, config.maxIterations, config.lambda);
+  const finalStream = runHybridInduction(grammar, stream, config.maxIterations, config.lambda, model);
   
   // Calculate statistics
   const originalSize = text.length;
-  const compressedSize = calculateCompressedSize(grammar, finalStream);
+  const compressedSize = totalMdlCost(grammar, finalStream, 1, model);
   const compressionRatio = compressedSize / originalSize;
   const totalSavings = originalSize - compressedSize;
   
@@ -106,6 +117,7 @@ export function trainFGT(text: string, config: FGTConfig = DEFAULT_FGT_CONFIG):
     compressionRatio,
     totalSavings,
     iterations,
+    costModel: model.name,
     stats
   };
 }
@@ -144,29 +156,6 @@ function replacePhraseInStream(stream: Path[], phrase: string[], symbol: Path):
   return result;
 }
 
-/**
- * Calculate compressed size of grammar + stream
- * @param grammar - Grammar
- * @param stream - Compressed stream
- * @returns Size in bytes
- */
-function calculateCompressedSize(grammar: Grammar, stream: Path[]): number {
-  let size = 0;
-  
-  // Size of grammar rules
-  for (const rule of grammar.rules.values()) {
-    size += 3; // "DEF"
-    size += rule.symbol.length;
-    size += rule.children.length * 2; // Each child address
-    size += rule.expansion.join(' ').length; // Original phrase
-  }
-  
-  // Size of stream
-  size += stream.length * 4; // "REF " + symbol for each token
-  
-  return size;
-}
-
 /**
  * Calculate average rule length
  * @param grammar - Grammar
@@ -201,10 +190,10 @@ function getDepthDistribution(grammar: Grammar): Map<number, number> {
 
 /**
  * Encode FGT result to stream format
- * @param result - FGT result
+ * @param result - FGT result (or any grammar with a stream over it)
  * @returns Encoded stream
  */
-export function encodeFGT(result: FGTResult): string {
+export function encodeFGT(result: Pick<FGTResult, 'grammar' | 'stream'>): string {
   const lines: string[] = [];
   
   // Add grammar rules
@@ -273,7 +262,7 @@ export function decodeFGT(encoded: string): string[] {
  */
 export function getFGTStats(result: FGTResult) {
   const originalSize = result.originalTokens.join(' ').length;
-  const compressedSize = calculateCompressedSize(result.grammar, result.stream);
+  const compressedSize = totalMdlCost(result.grammar, result.stream, 1, getCostModel(result.costModel));
   
   return {
     original: {
@@ -282,7 +271,8 @@ export function getFGTStats(result: FGTResult) {
     },
     compressed: {
       tokens: result.stream.length,
-      size: compressedSize
+      size: compressedSize,
+      costModel: result.costModel
     },
     compression: {
       ratio: result.compressionRatio,
@@ -296,3 +286,56 @@ export function getFGTStats(result: FGTResult) {
     }
   };
 }
+
+/** How applyGrammar encodes new text */
+export interface ApplyGrammarOptions {
+  tokenizer?: string;       // Tokenizer name (default: the grammar's training tokenizer, or ascii)
+  deltaIterations?: number; // Let RePair add up to this many pair rules for new patterns (default: 0)
+  lambda?: number;          // Rule cost penalty for delta rules
+  costModel?: string;       // Cost model for delta rules (see getCostModel)
+}
+
+/** A text encoded with a pre-trained grammar */
+export interface AppliedGrammar {
+  tokens: string[];
+  stream: Path[];
+  delta: Grammar;           // Rules RePair added for this text (their children may be base symbols)
+  grammar: Grammar;         // Base grammar plus delta: what expandStream needs to restore the tokens
+}
+
+/**
+ * Encode new text with a grammar trained on a reference corpus
+ * - a trie over every rule's full expansion replaces the longest known phrase at each position
+ * - with deltaIterations, RePair then defines pair rules for repeats the grammar does not cover,
+ *   at paths the base grammar leaves free
+ * @param grammar - Pre-trained grammar (not modified)
+ * @param text - Text to encode, or tokens already split with the grammar's tokenizer
+ * @param options - Tokenizer and delta grammar settings
+ * @returns Tokens, stream, delta rules and the combined grammar
+ */
+export function applyGrammar(grammar: Grammar, text: string | string[], options: ApplyGrammarOptions = {}): AppliedGrammar {
+  const tokens = typeof text === 'string' ? words(text, getTokenizer(options.tokenizer)) : text;
+  const trie = buildTrie(Array.from(grammar.rules.keys(), symbol => ({ phrase: expandSymbol(grammar, symbol), glyph: symbol })));
+
+  let stream: Path[] = [];
+  for (let i = 0; i < tokens.length;) {
+    // Longest match from i; unmatched tokens stay literal, escaped so `0` or `10` is never read as a rule
+    let node: Trie | undefined = trie;
+    let match: { len: number; symbol: Path } | null = null;
+    for (let j = i; j < tokens.length && (node = node.kids.get(tokens[j])); j++) {
+      if (node.glyph) match = { len: j - i + 1, symbol: node.glyph };
+    }
+    stream.push(match ? match.symbol : escapeGrammarLiteral(tokens[i]));
+    i += match ? match.len : 1;
+  }
+
+  const combined = createGrammar();
+  for (const rule of grammar.rules.values()) addRule(combined, rule);
+  if (options.deltaIterations) {
+    stream = runRepair(combined, stream, options.deltaIterations, options.lambda ?? DEFAULT_FGT_CONFIG.lambda, getCostModel(options.costModel));
+  }
+  const delta = createGrammar();
+  for (const rule of combined.rules.values()) if (!grammar.rules.has(rule.symbol)) addRule(delta, rule);
+
+  return { tokens, stream, delta, grammar: combined };
+}
@@ -0,0 +1,540 @@
+/**
+ * .ftz tape containers
+ *
+ * FTZ2 layout (all integers little-endian):
+ *   header   'FTZ2' u8 version u8 flags u16 reserved
+ *   sections DICT (glyph dictionary JSON), TOKS (token ID blocks), VOCB (interned tokens),
+ *            BIDX (block index: per block varint token count, varint byte length, u32 crc32),
+ *            DOCS (multi-document archives only: per document path, varint size, mtime, start, end)
+ *   table    per section: 4-byte tag, u64 offset, u64 length, u32 crc32
+ *   trailer  u64 table offset, u32 section count, u32 crc32(header + table), 'FTZ2'
+ *
+ * Each TOKS block is a coding byte plus varint or Huffman-coded IDs and decodes on its own,
+ * so a token address range only needs the blocks that overlap it.
+ *
+ * The table sits at the end and the vocabulary after the tokens, so a writer can
+ * stream tokens out as they are encoded and never has to seek back.
+ */
+
+import { createWriter, createReader, crc32 } from './binary.js';
+import { writeHuffman, readHuffman } from './huffman.js';
+import { loadGlyphDictionary, type GlyphDictionary } from './glyphDictionary.js';
+import type { Address } from './types.js';
+
+export const FTZ_MAGIC = 'FTZ2';
+export const FTZ_VERSION = 1;
+export const FTZ_FLAG_LOSSLESS = 1;
+export const FTZ_FLAG_ENTROPY = 2;
+
+/** Default tokens per independently decodable block */
+export const FTZ_BLOCK_SIZE = 16384;
+
+const HEADER_SIZE = 8;
+const TABLE_ENTRY_SIZE = 24;
+const TRAILER_SIZE = 20;
+const CODING_VARINT = 0;
+const CODING_HUFFMAN = 1;
+const READ_CHUNK = 1 << 16;
+
+export interface FtzSection {
+  tag: string;
+  offset: number;
+  length: number;
+  crc: number;
+}
+
+export interface FtzLayout {
+  magic: string;
+  version: number;
+  flags: number;
+  size: number;
+  sections: FtzSection[];
+}
+
+export interface FtzInspection extends Omit<FtzLayout, 'sections'> {
+  sections: (FtzSection & { ok: boolean })[];
+  blocks: FtzBlock[];    // Empty when the block index is missing or corrupt
+}
+
+export interface FtzTape {
+  dict: GlyphDictionary;
+  tokens: string[];
+  lossless?: boolean;    // undefined for FTZ1, which does not record it
+}
+
+export interface PackOptions {
+  lossless?: boolean;    // Tokens came from encodeLossless
+  entropy?: boolean;     // Huffman-code token IDs (one table per block) instead of plain varints
+  blockSize?: number;    // Tokens per block (default FTZ_BLOCK_SIZE)
+}
+
+/** A block of the token stream: addresses [start, end) live at byte offset..offset+length */
+export interface FtzBlock {
+  start: Address;
+  end: Address;
+  offset: number;
+  length: number;
+  crc: number;
+}
+
+/** A document in a multi-document archive; [start, end) are its token addresses, like doc_bounds */
+export interface FtzDocument {
+  path: string;          // Relative, '/'-separated
+  size: number;          // Source bytes
+  mtime: number;         // Source modification time, ms since the epoch
+  start: Address;
+  end: Address;
+}
+
+/** Half-open token address range, like doc_bounds */
+export interface AddressRange {
+  start: Address;
+  end: Address;
+}
+
+/** Random-access byte source: an in-memory buffer or a file */
+export interface FtzSource {
+  size: number;
+  read(offset: number, length: number): Uint8Array;
+}
+
+/** Writes sections one after another, then the table and trailer */
+export interface ContainerWriter {
+  section(tag: string, bytes: Uint8Array): void;
+  open(tag: string): void;
+  write(bytes: Uint8Array): void;
+  close(): void;
+  end(): void;
+}
+
+/** Packs a token stream piece by piece */
+export interface FtzWriter {
+  write(tokens: string[]): void;
+  count(): Address;                   // Tokens written so far, i.e. the next address
+  document(doc: FtzDocument): void;   // Record a document (makes the container an archive)
+  end(): void;
+}
+
+/** An opened container: dictionary up front, tokens in pieces */
+export interface FtzReader {
+  dict: GlyphDictionary;
+  lossless?: boolean;
+  tokenCount: number;
+  blocks: FtzBlock[];
+  documents: FtzDocument[];           // Empty unless the container is a multi-document archive
+  chunks(range?: AddressRange): Generator<string[]>;
+}
+
+const utf8 = new TextEncoder();
+const ascii = (data: Uint8Array) => String.fromCharCode(...data.subarray(0, 4));
+
+/**
+ * Wrap an in-memory buffer as a source
+ */
+export function bytesSource(data: Uint8Array): FtzSource {
+  return { size: data.length, read: (offset, length) => data.subarray(offset, offset + length) };
+}
+
+/**
+ * Create a container writer that hands bytes to a sink as soon as they are final
+ * @param flags - Header flag bits
+ * @param sink - Receives container bytes in order
+ */
+export function createContainerWriter(flags: number, sink: (bytes: Uint8Array) => void): ContainerWriter {
+  const header = createWriter(HEADER_SIZE);
+  header.bytes(utf8.encode(FTZ_MAGIC));
+  header.byte(FTZ_VERSION);
+  header.byte(flags);
+  header.u16(0);
+  const headerBytes = header.finish();
+  
+  let offset = 0;
+  const emit = (bytes: Uint8Array) => { offset += bytes.length; sink(bytes); };
+  const table: FtzSection[] = [];
+  let current: FtzSection | null = null;
+  emit(headerBytes);
+  
+  const w: ContainerWriter = {
+    section(tag, bytes) { w.open(tag); w.write(bytes); w.close(); },
+    open(tag) {
+      if (current) throw new Error(`Section ${current.tag} is still open`);
+      if (!/^[A-Z0-9]{4}$/.test(tag)) throw new Error(`Invalid section tag: ${tag}`);
+      current = { tag, offset, length: 0, crc: 0 };
+    },
+    write(bytes) {
+      if (!current) throw new Error('No open section');
+      current.length += bytes.length;
+      current.crc = crc32(bytes, current.crc);
+      emit(bytes);
+    },
+    close() { if (current) table.push(current); current = null; },
+    end() {
+      w.close();
+      const out = createWriter(table.length * TABLE_ENTRY_SIZE + TRAILER_SIZE);
+      for (const s of table) {
+        out.bytes(utf8.encode(s.tag));
+        out.u64(s.offset);
+        out.u64(s.length);
+        out.u32(s.crc);
+      }
+      const tableCrc = crc32(out.finish(), crc32(headerBytes));
+      out.u64(offset);
+      out.u32(table.length);
+      out.u32(tableCrc);
+      out.bytes(utf8.encode(FTZ_MAGIC));
+      emit(out.finish());
+    }
+  };
+  return w;
+}
+
+/**
+ * Create a writer that interns tokens (first seen, first ID) and streams them out in blocks
+ * @param dict - Glyph dictionary the tokens were encoded with
+ * @param options - Lossless marker, entropy coding and block size
+ * @param sink - Receives container bytes in order
+ */
+export function createFtzWriter(dict: GlyphDictionary, options: PackOptions, sink: (bytes: Uint8Array) => void): FtzWriter {
+  const blockSize = options.blockSize ?? FTZ_BLOCK_SIZE;
+  if (!Number.isInteger(blockSize) || blockSize < 1) throw new Error(`Invalid block size: ${blockSize}`);
+  const flags = (options.lossless ? FTZ_FLAG_LOSSLESS : 0) | (options.entropy ? FTZ_FLAG_ENTROPY : 0);
+  const container = createContainerWriter(flags, sink);
+  container.section('DICT', utf8.encode(JSON.stringify(dict)));
+  container.open('TOKS');
+  
+  const idOf = new Map<string, number>();
+  const vocab: string[] = [];
+  const index = createWriter();
+  const documents: FtzDocument[] = [];
+  let block: number[] = [];
+  let blocks = 0;
+  let written = 0;
+  
+  const flush = () => {
+    if (block.length === 0) return;
+    const bytes = encodeBlock(block, !!options.entropy);
+    container.write(bytes);
+    index.varint(block.length);
+    index.varint(bytes.length);
+    index.u32(crc32(bytes));
+    blocks++;
+    block = [];
+  };
+  
+  return {
+    write(tokens) {
+      for (const t of tokens) {
+        let id = idOf.get(t);
+        if (id === undefined) { id = vocab.length; idOf.set(t, id); vocab.push(t); }
+        block.push(id);
+        written++;
+        if (block.length === blockSize) flush();
+      }
+    },
+    count: () => written,
+    document(doc) {
+      const last = documents[documents.length - 1];
+      if (doc.start > doc.end || doc.end > written || (last && doc.start < last.end)) {
+        throw new Error(`Document ${doc.path} has invalid bounds ${doc.start}:${doc.end}`);
+      }
+      documents.push(doc);
+    },
+    end() {
+      flush();
+      container.close();
+      const vocabOut = createWriter();
+      vocabOut.varint(vocab.length);
+      for (const t of vocab) vocabOut.string(t);
+      container.section('VOCB', vocabOut.finish());
+      const indexOut = createWriter();
+      indexOut.varint(blocks);
+      indexOut.bytes(index.finish());
+      container.section('BIDX', indexOut.finish());
+      if (documents.length) container.section('DOCS', writeDocuments(documents));
+      container.end();
+    }
+  };
+}
+
+function writeDocuments(documents: FtzDocument[]): Uint8Array {
+  const out = createWriter();
+  out.varint(documents.length);
+  for (const d of documents) {
+    out.string(d.path);
+    out.varint(d.size);
+    out.varint(Math.max(0, Math.round(d.mtime)));
+    out.varint(d.start);
+    out.varint(d.end);
+  }
+  return out.finish();
+}
+
+function readDocuments(bytes: Uint8Array, tokenCount: number): FtzDocument[] {
+  const input = createReader(bytes);
+  const documents: FtzDocument[] = [];
+  for (let n = input.varint(); n > 0; n--) {
+    const doc = { path: input.string(), size: input.varint(), mtime: input.varint(), start: input.varint(), end: input.varint() };
+    if (doc.start > doc.end || doc.end > tokenCount) throw new Error(`Corrupt FTZ2 file: document ${doc.path} out of bounds`);
+    documents.push(doc);
+  }
+  return documents;
+}
+
+function encodeBlock(ids: number[], entropy: boolean): Uint8Array {
+  const out = createWriter(ids.length * 2 + 16);
+  if (entropy) {
+    out.byte(CODING_HUFFMAN);
+    writeHuffman(ids, out);
+  } else {
+    out.byte(CODING_VARINT);
+    for (const id of ids) out.varint(id);
+  }
+  return out.finish();
+}
+
+/**
+ * Pack an encoded token stream and its dictionary into an FTZ2 container
+ * @param tokens - Encoded tokens (from encode or encodeLossless)
+ * @param dict - Glyph dictionary the tokens were encoded with
+ * @param options - Lossless marker and entropy coding
+ * @returns Container bytes
+ */
+export function packFTZ(tokens: string[], dict: GlyphDictionary, options: PackOptions = {}): Uint8Array {
+  const out = createWriter(tokens.length * 2 + 1024);
+  const writer = createFtzWriter(dict, options, bytes => out.bytes(bytes));
+  writer.write(tokens);
+  writer.end();
+  return out.finish();
+}
+
+/**
+ * Read the header and section table of an FTZ2 container, verifying the table checksum
+ * @param source - Container bytes
+ * @returns Header fields and section table (section payloads are not verified)
+ * @throws Error for non-FTZ2 data, truncated files or a corrupt table
+ */
+export function readLayout(source: FtzSource): FtzLayout {
+  const header = source.read(0, HEADER_SIZE);
+  if (header.length < 4 || ascii(header) !== FTZ_MAGIC) throw new Error('Not an FTZ2 file');
+  const trailerBytes = source.size >= HEADER_SIZE + TRAILER_SIZE ? source.read(source.size - TRAILER_SIZE, TRAILER_SIZE) : null;
+  if (!trailerBytes || ascii(trailerBytes.subarray(TRAILER_SIZE - 4)) !== FTZ_MAGIC) {
+    throw new Error('Truncated FTZ2 file: missing trailer');
+  }
+  const version = header[4];
+  if (version > FTZ_VERSION) throw new Error(`Unsupported FTZ2 version ${version} (this build reads up to ${FTZ_VERSION})`);
+  
+  const trailer = createReader(trailerBytes);
+  const tableOffset = trailer.u64();
+  const count = trailer.u32();
+  const tableCrc = trailer.u32();
+  if (tableOffset < HEADER_SIZE || tableOffset + count * TABLE_ENTRY_SIZE !== source.size - TRAILER_SIZE) {
+    throw new Error('Corrupt FTZ2 file: section table out of bounds');
+  }
+  const tableBytes = source.read(tableOffset, count * TABLE_ENTRY_SIZE);
+  if (crc32(tableBytes, crc32(header)) !== tableCrc) {
+    throw new Error('Corrupt FTZ2 file: header or section table checksum mismatch');
+  }
+  
+  const table = createReader(tableBytes);
+  const sections: FtzSection[] = [];
+  for (let i = 0; i < count; i++) {
+    const tag = ascii(table.bytes(4));
+    const section = { tag, offset: table.u64(), length: table.u64(), crc: table.u32() };
+    if (section.offset < HEADER_SIZE || section.offset + section.length > tableOffset) {
+      throw new Error(`Corrupt FTZ2 file: section ${tag} out of bounds`);
+    }
+    sections.push(section);
+  }
+  return { magic: FTZ_MAGIC, version, flags: header[5], size: source.size, sections };
+}
+
+/**
+ * Find a section by tag
+ * @throws Error when the container has no such section
+ */
+export function findSection(layout: FtzLayout, tag: string): FtzSection {
+  const section = layout.sections.find(s => s.tag === tag);
+  if (!section) throw new Error(`Corrupt FTZ2 file: missing ${tag} section`);
+  return section;
+}
+
+/**
+ * Check a section's CRC, reading it in pieces
+ */
+export function verifySection(source: FtzSource, section: FtzSection): boolean {
+  let crc = 0;
+  for (let pos = 0; pos < section.length; pos += READ_CHUNK) {
+    crc = crc32(source.read(section.offset + pos, Math.min(READ_CHUNK, section.length - pos)), crc);
+  }
+  return crc === section.crc;
+}
+
+/**
+ * Return a section's payload after checking its CRC
+ * @throws Error when the section is missing or its checksum does not match
+ */
+export function readSection(source: FtzSource, layout: FtzLayout, tag: string): Uint8Array {
+  const section = findSection(layout, tag);
+  const bytes = source.read(section.offset, section.length);
+  if (crc32(bytes) !== section.crc) throw new Error(`Corrupt FTZ2 file: ${tag} section checksum mismatch`);
+  return bytes;
+}
+
+/**
+ * Open an .ftz container (FTZ2, or the legacy FTZ1 text format)
+ * Dictionary, vocabulary and block index are verified here; token blocks when chunks() reads them
+ * @param source - Container bytes
+ * @returns Dictionary, lossless marker, block index and a token generator
+ * @throws Error with a description of what is wrong for corrupt or truncated files
+ */
+export function openFTZ(source: FtzSource): FtzReader {
+  const magic = ascii(source.read(0, 4));
+  if (magic === 'FTZ1') return openFTZ1(source.read(0, source.size));
+  if (magic !== FTZ_MAGIC) throw new Error('Not an .ftz file (expected FTZ1 or FTZ2 magic)');
+  
+  const layout = readLayout(source);
+  const dict = loadSectionDict(readSection(source, layout, 'DICT'));
+  const vocabIn = createReader(readSection(source, layout, 'VOCB'));
+  const vocab: string[] = [];
+  for (let n = vocabIn.varint(); n > 0; n--) vocab.push(vocabIn.string());
+  const toks = findSection(layout, 'TOKS');
+  const blocks = readBlockIndex(readSection(source, layout, 'BIDX'), toks);
+  
+  const lookup = (id: number) => {
+    if (id >= vocab.length) throw new Error(`Corrupt FTZ2 file: token ID ${id} outside vocabulary of ${vocab.length}`);
+    return vocab[id];
+  };
+  const tokenCount = blocks.length ? blocks[blocks.length - 1].end : 0;
+  const documents = layout.sections.some(s => s.tag === 'DOCS') ? readDocuments(readSection(source, layout, 'DOCS'), tokenCount) : [];
+  
+  return {
+    dict,
+    lossless: (layout.flags & FTZ_FLAG_LOSSLESS) !== 0,
+    tokenCount,
+    blocks,
+    documents,
+    *chunks(range) {
+      // A full read checks the whole section first so nothing is emitted from a corrupt file
+      if (!range && !verifySection(source, toks)) throw new Error('Corrupt FTZ2 file: TOKS section checksum mismatch');
+      const { start, end } = clampRange(range, tokenCount);
+      for (const [i, block] of blocks.entries()) {
+        if (block.end <= start || block.start >= end) continue;
+        const bytes = source.read(block.offset, block.length);
+        if (range && crc32(bytes) !== block.crc) {
+          throw new Error(`Corrupt FTZ2 file: block ${i} (addresses ${block.start}-${block.end}) checksum mismatch`);
+        }
+        const ids = decodeBlock(bytes, block.end - block.start);
+        const from = Math.max(start, block.start) - block.start;
+        const to = Math.min(end, block.end) - block.start;
+        yield ids.slice(from, to).map(lookup);
+      }
+    }
+  };
+}
+
+/**
+ * Parse the BIDX section into absolute token addresses and byte offsets
+ */
+function readBlockIndex(bytes: Uint8Array, toks: FtzSection): FtzBlock[] {
+  const input = createReader(bytes);
+  const blocks: FtzBlock[] = [];
+  let start = 0, offset = toks.offset;
+  for (let n = input.varint(); n > 0; n--) {
+    const tokens = input.varint(), length = input.varint(), crc = input.u32();
+    blocks.push({ start, end: start + tokens, offset, length, crc });
+    start += tokens;
+    offset += length;
+  }
+  if (offset !== toks.offset + toks.length) throw new Error('Corrupt FTZ2 file: block index does not cover the TOKS section');
+  return blocks;
+}
+
+function decodeBlock(bytes: Uint8Array, count: number): number[] {
+  const input = createReader(bytes);
+  const coding = input.byte();
+  let ids: number[];
+  if (coding === CODING_HUFFMAN) {
+    ids = readHuffman(input);
+  } else if (coding === CODING_VARINT) {
+    ids = [];
+    while (!input.eof()) ids.push(input.varint());
+  } else {
+    throw new Error(`Corrupt FTZ2 file: unknown token coding ${coding}`);
+  }
+  if (ids.length !== count) throw new Error(`Corrupt FTZ2 file: block holds ${ids.length} tokens, index says ${count}`);
+  return ids;
+}
+
+/**
+ * Clamp an address range to [0, tokenCount]; no range means everything
+ * @throws Error when start > end
+ */
+function clampRange(range: AddressRange | undefined, tokenCount: number): AddressRange {
+  if (!range) return { start: 0, end: tokenCount };
+  if (!(range.start <= range.end)) throw new Error(`Invalid address range ${range.start}:${range.end}`);
+  return { start: Math.max(0, range.start), end: Math.min(tokenCount, range.end) };
+}
+
+function loadSectionDict(bytes: Uint8Array): GlyphDictionary {
+  try {
+    return loadGlyphDictionary(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+  } catch (e) {
+    throw new Error(`Corrupt FTZ2 file: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Read the legacy FTZ1 format: 'FTZ1' u32 glyph count, dictionary JSON, newline, space-joined tokens
+ */
+function openFTZ1(data: Uint8Array): FtzReader {
+  const decoder = new TextDecoder();
+  const newline = data.indexOf(0x0a, 8);
+  if (data.length < 8 || newline < 0) throw new Error('Truncated FTZ1 file: missing dictionary');
+  
+  // Older files carry a bare glyph array; loadGlyphDictionary migrates them
+  let dict: GlyphDictionary;
+  try {
+    dict = loadGlyphDictionary(decoder.decode(data.subarray(8, newline)));
+  } catch (e) {
+    throw new Error(`Invalid FTZ1 file: ${(e as Error).message}`);
+  }
+  const tokens = decoder.decode(data.subarray(newline + 1)).split(/\s+/).filter(Boolean);
+  return {
+    dict,
+    tokenCount: tokens.length,
+    documents: [],
+    blocks: [{ start: 0, end: tokens.length, offset: newline + 1, length: data.length - newline - 1, crc: 0 }],
+    *chunks(range) {
+      const { start, end } = clampRange(range, tokens.length);
+      yield tokens.slice(start, end);
+    }
+  };
+}
+
+/**
+ * Unpack an in-memory .ftz container
+ * @param data - Container bytes
+ * @param range - Only tokens at these addresses (decodes just the overlapping blocks)
+ * @returns Dictionary and encoded token stream
+ * @throws Error with a description of what is wrong for corrupt or truncated files
+ */
+export function unpackFTZ(data: Uint8Array, range?: AddressRange): FtzTape {
+  const reader = openFTZ(bytesSource(data));
+  const tokens: string[] = [];
+  for (const chunk of reader.chunks(range)) for (const t of chunk) tokens.push(t);
+  return { dict: reader.dict, tokens, lossless: reader.lossless };
+}
+
+/**
+ * Describe a container's layout and check every section checksum
+ * @param source - Container bytes
+ * @returns Layout plus per-section checksum status and the block index
+ */
+export function inspectFTZ(source: FtzSource): FtzInspection {
+  const layout = readLayout(source);
+  const sections = layout.sections.map(s => ({ ...s, ok: verifySection(source, s) }));
+  const toks = sections.find(s => s.tag === 'TOKS');
+  const bidx = sections.find(s => s.tag === 'BIDX');
+  const blocks = toks && bidx?.ok ? readBlockIndex(source.read(bidx.offset, bidx.length), toks) : [];
+  return { ...layout, sections, blocks };
+}
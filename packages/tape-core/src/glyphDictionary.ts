@@ -0,0 +1,207 @@
+/**
+ * Versioned, self-describing glyph dictionary file format
+ */
+
+import type { GlyphEntry } from './trainer.js';
+import { fnv1a32 } from './glyphPool.js';
+import { getTokenizer, isSideToken, DEFAULT_TOKENIZER } from './tokenize.js';
+import { GLYPH_ESCAPE } from './trie.js';
+
+export const GLYPH_DICT_FORMAT = 'fractal-tape/glyphs';
+export const GLYPH_DICT_VERSION = 2;
+
+export type GlyphDictEntry = GlyphEntry & { layer: number };
+
+export interface GlyphDictionary {
+  format: typeof GLYPH_DICT_FORMAT;
+  version: number;
+  tokenizer: string;     // Tokenizer name (see getTokenizer)
+  seed?: string;         // Seed used to shuffle the glyph pool
+  prefix?: string;       // ASCII pool prefix
+  levels?: number;       // ASCII pool levels
+  hash: string;          // Content hash over tokenizer, pool settings and entries
+  glyphs: GlyphDictEntry[];
+  generatedAt?: string;
+  source?: string[];
+  stats?: Record<string, number>;
+}
+
+export interface GlyphDictionaryMeta {
+  tokenizer?: string;
+  seed?: string;
+  prefix?: string;
+  levels?: number;
+  generatedAt?: string;
+  source?: string[];
+  stats?: Record<string, number>;
+}
+
+export interface LoadGlyphDictionaryOptions {
+  tokenizer?: string;              // Assumed tokenizer for files that predate tokenizers
+  vocabulary?: Iterable<string>;   // Plain words glyphs must not collide with
+}
+
+/**
+ * Create a dictionary from glyph entries
+ * @param glyphs - Glyph entries (layer defaults to 1)
+ * @param meta - Tokenizer, pool settings and provenance
+ * @returns Dictionary with its content hash filled in
+ */
+export function createGlyphDictionary(glyphs: GlyphEntry[], meta: GlyphDictionaryMeta = {}): GlyphDictionary {
+  const dict: GlyphDictionary = {
+    format: GLYPH_DICT_FORMAT,
+    version: GLYPH_DICT_VERSION,
+    tokenizer: getTokenizer(meta.tokenizer).name,
+    seed: meta.seed,
+    prefix: meta.prefix,
+    levels: meta.levels,
+    hash: '',
+    glyphs: glyphs.map(g => ({ ...g, layer: (g as Partial<GlyphDictEntry>).layer ?? 1 })),
+    generatedAt: meta.generatedAt,
+    source: meta.source,
+    stats: meta.stats
+  };
+  dict.hash = glyphDictionaryHash(dict);
+  return dict;
+}
+
+/**
+ * Parse, migrate and validate a glyph dictionary
+ * Accepts the current format, `{ glyphs: [...] }` objects from older
+ * `tape glyph-train` runs and bare glyph arrays.
+ * @param input - JSON text or an already parsed value
+ * @param options - Legacy tokenizer and extra vocabulary to check against
+ * @returns Validated dictionary
+ * @throws Error listing every problem found
+ */
+export function loadGlyphDictionary(input: unknown, options: LoadGlyphDictionaryOptions = {}): GlyphDictionary {
+  const raw = typeof input === 'string' ? parseJson(input) : input;
+  const dict = migrateGlyphDictionary(raw, options.tokenizer);
+  const errors = validateGlyphDictionary(dict, options.vocabulary);
+  if (errors.length > 0) {
+    throw new Error(`Invalid glyph dictionary: ${errors.join('; ')}`);
+  }
+  return dict;
+}
+
+/**
+ * Validate and serialize a dictionary (the content hash is recomputed)
+ * @param dict - Dictionary to save
+ * @returns Pretty-printed JSON text
+ * @throws Error listing every problem found
+ */
+export function saveGlyphDictionary(dict: GlyphDictionary): string {
+  const out: GlyphDictionary = { ...dict, version: GLYPH_DICT_VERSION, hash: glyphDictionaryHash(dict) };
+  const errors = validateGlyphDictionary(out);
+  if (errors.length > 0) {
+    throw new Error(`Invalid glyph dictionary: ${errors.join('; ')}`);
+  }
+  return JSON.stringify(out, null, 2);
+}
+
+/**
+ * Validate dictionary consistency
+ * @param dict - Dictionary to validate
+ * @param vocabulary - Extra plain words glyphs must not collide with
+ * @returns Array of validation errors
+ */
+export function validateGlyphDictionary(dict: GlyphDictionary, vocabulary: Iterable<string> = []): string[] {
+  const errors: string[] = [];
+  
+  if (dict.format !== GLYPH_DICT_FORMAT) errors.push(`Unknown format "${dict.format}"`);
+  if (dict.version > GLYPH_DICT_VERSION) errors.push(`Unsupported version ${dict.version} (max ${GLYPH_DICT_VERSION})`);
+  try {
+    getTokenizer(dict.tokenizer);
+  } catch (e) {
+    errors.push((e as Error).message);
+  }
+  
+  const glyphs = new Set<string>();
+  const phrases = new Set<string>();
+  const words = new Set<string>(vocabulary);
+  
+  dict.glyphs.forEach((entry, i) => {
+    errors.push(...validateEntry(entry, i));
+    if (glyphs.has(entry.glyph)) errors.push(`Duplicate glyph "${entry.glyph}"`);
+    glyphs.add(entry.glyph);
+    const key = `${entry.layer}:${Array.isArray(entry.phrase) ? entry.phrase.join(' ') : ''}`;
+    if (phrases.has(key)) errors.push(`Duplicate phrase "${key.slice(key.indexOf(':') + 1)}" in layer ${entry.layer}`);
+    phrases.add(key);
+    // Higher layers are phrases over glyphs, not plain words
+    if (Array.isArray(entry.phrase) && entry.layer <= 1) {
+      for (const w of entry.phrase) words.add(w);
+    }
+  });
+  
+  for (const glyph of glyphs) {
+    if (words.has(glyph)) errors.push(`Glyph "${glyph}" collides with a plain vocabulary word`);
+  }
+  
+  if (dict.hash !== glyphDictionaryHash(dict)) errors.push('Content hash mismatch');
+  return errors;
+}
+
+/**
+ * Compute the content hash of a dictionary
+ * @param dict - Dictionary to hash
+ * @returns 8-digit hex FNV-1a hash
+ */
+export function glyphDictionaryHash(dict: GlyphDictionary): string {
+  const canonical = JSON.stringify([
+    dict.tokenizer, dict.seed ?? null, dict.prefix ?? null, dict.levels ?? null,
+    dict.glyphs.map(g => [g.glyph, g.phrase, g.layer, g.gain ?? null])
+  ]);
+  return fnv1a32(canonical).toString(16).padStart(8, '0');
+}
+
+/**
+ * Upgrade any supported dictionary shape to the current format
+ */
+function migrateGlyphDictionary(raw: unknown, legacyTokenizer: string = DEFAULT_TOKENIZER): GlyphDictionary {
+  if (Array.isArray(raw)) {
+    return createGlyphDictionary(raw as GlyphEntry[], { tokenizer: legacyTokenizer });
+  }
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as { glyphs?: unknown }).glyphs)) {
+    throw new Error('Invalid glyph dictionary: expected a glyph array or an object with a "glyphs" array');
+  }
+  
+  const obj = raw as Partial<GlyphDictionary>;
+  if (obj.format === GLYPH_DICT_FORMAT) return obj as GlyphDictionary;
+  
+  // Version 1: glyph-train output without format/version/hash
+  return createGlyphDictionary(obj.glyphs as GlyphEntry[], {
+    ...obj,
+    tokenizer: obj.tokenizer ?? legacyTokenizer
+  });
+}
+
+function validateEntry(entry: GlyphDictEntry, i: number): string[] {
+  const errors: string[] = [];
+  const where = `Entry ${i}`;
+  
+  if (typeof entry.glyph !== 'string' || entry.glyph === '') {
+    errors.push(`${where}: glyph must be a non-empty string`);
+  } else if (/\s/.test(entry.glyph) || isSideToken(entry.glyph) || entry.glyph.startsWith(GLYPH_ESCAPE)) {
+    errors.push(`${where}: glyph "${entry.glyph}" contains whitespace or a reserved marker`);
+  }
+  if (!Array.isArray(entry.phrase) || entry.phrase.length === 0 ||
+      entry.phrase.some(w => typeof w !== 'string' || w === '' || /\s/.test(w))) {
+    errors.push(`${where}: phrase must be a non-empty array of single words`);
+  }
+  if (!Number.isInteger(entry.layer) || entry.layer < 1) {
+    errors.push(`${where}: layer must be a positive integer`);
+  }
+  if (entry.gain !== undefined && !Number.isFinite(entry.gain)) {
+    errors.push(`${where}: gain must be a finite number`);
+  }
+  
+  return errors;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Invalid glyph dictionary: ${(e as Error).message}`);
+  }
+}
@@ -34,10 +34,27 @@ export function asciiPool(prefix: string = "~", levels: number = 2): string[] {
   return pool;
 }
 
+/**
+ * Check whether a token belongs to an ASCII glyph pool without materializing it
+ * @param token - Token to test
+ * @param prefix - Prefix character (default: "~")
+ * @param levels - Number of levels (1-3, default: 2)
+ * @returns True if asciiPool(prefix, levels) contains the token
+ */
+export function isPoolGlyph(token: string, prefix: string = "~", levels: number = 2): boolean {
+  if (!token.startsWith(prefix)) return false;
+  const body = token.slice(prefix.length);
+  if (body.length < 1 || body.length > levels) return false;
+  for (const ch of body) {
+    if (!ALPHA.includes(ch)) return false;
+  }
+  return true;
+}
+
 /**
  * FNV1a32 hash function
  */
-function fnv1a32(str: string): number {
+export function fnv1a32(str: string): number {
   let h = 0x811c9dc5;
   for (let i = 0; i < str.length; i++) {
     h ^= str.charCodeAt(i);
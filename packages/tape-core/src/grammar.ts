@@ -4,7 +4,28 @@
 
 import type { Rule, Grammar } from './mdl.js';
 import type { Path } from './path.js';
-import { nextAvailablePath, getChildren, isAncestor } from './path.js';
+import { nextAvailablePath, getChildren, isAncestor, isValidPath } from './path.js';
+
+/** Prefix that keeps a literal token out of the rule namespace (see escapeGrammarLiteral) */
+export const LITERAL_ESCAPE = '\\';
+
+/**
+ * Write a token as a literal symbol for a stream or a rule's children
+ * - tokens that look like a rule path (`0`, `12`) or start with LITERAL_ESCAPE get it prepended,
+ *   so a symbol that is a valid path always refers to a rule and anything else is a literal
+ * @param token - Token as the tokenizer produced it
+ * @returns Literal symbol
+ */
+export function escapeGrammarLiteral(token: string): string {
+  return isValidPath(token) || token.startsWith(LITERAL_ESCAPE) ? LITERAL_ESCAPE + token : token;
+}
+
+/**
+ * Recover the token a literal symbol stands for (inverse of escapeGrammarLiteral)
+ */
+export function unescapeGrammarLiteral(symbol: string): string {
+  return symbol.startsWith(LITERAL_ESCAPE) ? symbol.slice(LITERAL_ESCAPE.length) : symbol;
+}
 
 /**
  * Create a new rule
@@ -77,7 +98,7 @@ function addRule(grammar: Grammar, rule: Rule): boolean {
 export function expandSymbol(grammar: Grammar, symbol: Path): string[] {
   const rule = grammar.rules.get(symbol);
   if (!rule) {
-    return [symbol]; // Unknown symbol, treat as literal
+    return [unescapeGrammarLiteral(symbol)]; // Unknown symbol, treat as literal
   }
   
   const result: string[] = [];
@@ -233,6 +254,8 @@ export function getGrammarStats(grammar: Grammar) {
 
 /**
  * Validate grammar consistency
+ * - a child that is a path refers to a rule and must be defined; literals never look like paths,
+ *   since they are escaped on the way in (see escapeGrammarLiteral)
  * @param grammar - Grammar to validate
  * @returns Array of validation errors
  */
@@ -244,10 +267,10 @@ export function validateGrammar(grammar: Grammar): string[] {
     errors.push('Grammar contains cycles');
   }
   
-  // Check for undefined symbols
+  // Check for undefined symbols (literals are escaped, so a child that is a path must be a rule)
   for (const [symbol, rule] of grammar.rules) {
     for (const child of rule.children) {
-      if (!grammar.symbols.has(child) && !isValidPath(child)) {
+      if (!grammar.symbols.has(child) && isValidPath(child)) {
         errors.push(`Rule ${symbol} references undefined symbol ${child}`);
       }
     }
@@ -265,9 +288,3 @@ export function validateGrammar(grammar: Grammar): string[] {
   return errors;
 }
 
-/**
- * Check if a path is valid (from path.ts)
- */
-function isValidPath(path: Path): boolean {
-  return /^[012]+$/.test(path);
-}
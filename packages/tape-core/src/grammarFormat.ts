@@ -0,0 +1,214 @@
+/**
+ * Serialized Fractal Grammar Tape grammars: canonical JSON and a compact binary form
+ */
+
+import type { Rule, Grammar } from './mdl.js';
+import type { Path } from './path.js';
+import type { FGTConfig, FGTResult } from './fgt.js';
+import { createGrammar, addRule } from './mdl.js';
+import { encodePath, decodePath, isValidPath } from './path.js';
+import { validateGrammar, escapeGrammarLiteral, unescapeGrammarLiteral } from './grammar.js';
+import { getFGTStats } from './fgt.js';
+import { createWriter, createReader, crc32 } from './binary.js';
+
+export const GRAMMAR_FORMAT = 'fractal-tape/grammar';
+export const GRAMMAR_VERSION = 1;
+export const GRAMMAR_MAGIC = 'FTG1';
+
+/** Provenance and training details saved alongside a grammar */
+export interface GrammarMeta {
+  config?: FGTConfig;
+  generatedAt?: string;
+  source?: string[];
+  stats?: unknown;        // getFGTStats of the training run, Maps as objects
+}
+
+/** A grammar, optionally with a stream compressed by it */
+export interface GrammarFile {
+  grammar: Grammar;
+  stream?: Path[];
+  meta?: GrammarMeta;
+}
+
+/** The JSON shape of a GrammarFile */
+export interface GrammarJson {
+  format: typeof GRAMMAR_FORMAT;
+  version: number;
+  rules: Rule[];
+  stream?: Path[];
+  meta?: GrammarMeta;
+}
+
+/**
+ * Package a training run for saving: its grammar, compressed stream, config and statistics
+ * @param result - FGT result
+ * @param meta - Config and provenance (stats are filled in from the result)
+ */
+export function fgtGrammarFile(result: FGTResult, meta: GrammarMeta = {}): GrammarFile {
+  return { grammar: result.grammar, stream: result.stream, meta: { ...meta, stats: mapsToObjects(getFGTStats(result)) } };
+}
+
+/**
+ * Serialize a grammar as canonical JSON: rules ordered by path depth then path, fixed key order
+ * @param file - Grammar, optional stream and metadata
+ * @returns Pretty-printed JSON text
+ * @throws Error listing every problem found
+ */
+export function saveGrammar(file: GrammarFile): string {
+  assertValid(file.grammar);
+  const out: GrammarJson = {
+    format: GRAMMAR_FORMAT,
+    version: GRAMMAR_VERSION,
+    rules: canonicalRules(file.grammar).map(r => ({
+      symbol: r.symbol, children: r.children, expansion: r.expansion, gain: r.gain, frequency: r.frequency
+    })),
+    stream: file.stream,
+    meta: file.meta && mapsToObjects(file.meta)
+  };
+  return JSON.stringify(out, null, 2);
+}
+
+/**
+ * Serialize a grammar in the binary FTG1 form
+ * - magic, version, then a literal table and a rule path table (each path as its depth plus encodePath bytes)
+ * - rule bodies and the stream refer to entries of those tables by varint: (index << 1) | isRule, so whether
+ *   a symbol is a rule is recorded, never guessed; literals are stored as the words themselves (unescaped)
+ * - metadata as JSON text, then a CRC32 of everything before it
+ * @param file - Grammar, optional stream and metadata
+ * @returns Binary grammar
+ * @throws Error listing every problem found
+ */
+export function saveGrammarBinary(file: GrammarFile): Uint8Array {
+  assertValid(file.grammar);
+  const rules = canonicalRules(file.grammar);
+  const ruleIndex = new Map(rules.map((r, i) => [r.symbol, i]));
+  const literals = new Map<string, number>();
+  const refs = (symbols: Path[]) => symbols.map(s => {
+    const rule = ruleIndex.get(s);
+    if (rule !== undefined) return rule * 2 + 1;
+    const word = unescapeGrammarLiteral(s);
+    if (!literals.has(word)) literals.set(word, literals.size);
+    return literals.get(word)! * 2;
+  });
+  const bodies = rules.map(r => ({ children: refs(r.children), expansion: refs(r.expansion) }));
+  const stream = file.stream && refs(file.stream);
+
+  const w = createWriter();
+  w.bytes(new TextEncoder().encode(GRAMMAR_MAGIC));
+  w.byte(GRAMMAR_VERSION);
+  w.byte(stream ? 1 : 0);
+  w.varint(literals.size);
+  for (const literal of literals.keys()) w.string(literal);
+  w.varint(rules.length);
+  for (const r of rules) {
+    const path = encodePath(r.symbol);
+    w.varint(r.symbol.length);
+    w.varint(path.length);
+    w.bytes(path);
+  }
+  rules.forEach((r, i) => {
+    w.varint(r.frequency);
+    w.string(String(r.gain));
+    for (const list of [bodies[i].children, bodies[i].expansion]) {
+      w.varint(list.length);
+      for (const ref of list) w.varint(ref);
+    }
+  });
+  if (stream) {
+    w.varint(stream.length);
+    for (const ref of stream) w.varint(ref);
+  }
+  w.string(file.meta ? JSON.stringify(mapsToObjects(file.meta)) : '');
+  w.u32(crc32(w.finish()));
+  return w.finish();
+}
+
+/**
+ * Parse and validate a grammar saved by saveGrammar or saveGrammarBinary
+ * @param input - JSON text, a parsed JSON value, or FTG1 bytes
+ * @returns Grammar with its stream and metadata
+ * @throws Error listing every problem found (cycles, undefined or malformed symbols, corruption)
+ */
+export function loadGrammar(input: unknown): GrammarFile {
+  const file = input instanceof Uint8Array && isBinaryGrammar(input) ? readBinary(input)
+    : readJson(typeof input === 'string' ? JSON.parse(input) : input instanceof Uint8Array ? JSON.parse(new TextDecoder().decode(input)) : input);
+  assertValid(file.grammar);
+  return file;
+}
+
+/** Whether bytes start with the FTG1 magic */
+export function isBinaryGrammar(data: Uint8Array): boolean {
+  return data.length >= 4 && new TextDecoder().decode(data.subarray(0, 4)) === GRAMMAR_MAGIC;
+}
+
+function readJson(raw: unknown): GrammarFile {
+  const json = raw as GrammarJson;
+  if (!json || json.format !== GRAMMAR_FORMAT || !Array.isArray(json.rules)) {
+    throw new Error(`Invalid grammar: expected a "${GRAMMAR_FORMAT}" file with rules`);
+  }
+  if (json.version > GRAMMAR_VERSION) {
+    throw new Error(`Invalid grammar: version ${json.version} is newer than supported (${GRAMMAR_VERSION})`);
+  }
+  if (json.stream !== undefined && !Array.isArray(json.stream)) throw new Error('Invalid grammar: stream must be an array');
+  return { grammar: buildGrammar(json.rules), stream: json.stream, meta: json.meta };
+}
+
+function readBinary(data: Uint8Array): GrammarFile {
+  if (data.length < 10) throw new Error('Invalid grammar: truncated FTG1 data');
+  const stored = createReader(data, data.length - 4).u32();
+  if (crc32(data.subarray(0, data.length - 4)) !== stored) throw new Error('Invalid grammar: CRC32 mismatch');
+
+  const r = createReader(data, 4, data.length - 4);
+  const version = r.byte();
+  if (version > GRAMMAR_VERSION) throw new Error(`Invalid grammar: version ${version} is newer than supported (${GRAMMAR_VERSION})`);
+  const hasStream = (r.byte() & 1) === 1;
+  const literals = Array.from({ length: r.varint() }, () => escapeGrammarLiteral(r.string()));
+  const symbols = Array.from({ length: r.varint() }, () => {
+    const depth = r.varint();
+    return decodePath(r.bytes(r.varint())).padStart(depth, '0');
+  });
+  const deref = (ref: number) => {
+    const s = ref & 1 ? symbols[ref >>> 1] : literals[ref >>> 1];
+    if (s === undefined) throw new Error(`Invalid grammar: reference ${ref} out of range`);
+    return s;
+  };
+  const list = () => Array.from({ length: r.varint() }, () => deref(r.varint()));
+  const rules: Rule[] = symbols.map(symbol => {
+    const frequency = r.varint();
+    const gain = Number(r.string());
+    return { symbol, children: list(), expansion: list(), gain, frequency };
+  });
+  const stream = hasStream ? list() : undefined;
+  const meta = r.string();
+  return { grammar: buildGrammar(rules), stream, meta: meta ? JSON.parse(meta) : undefined };
+}
+
+function buildGrammar(rules: Rule[]): Grammar {
+  const grammar = createGrammar();
+  for (const rule of rules) {
+    if (!rule || typeof rule.symbol !== 'string' || !Array.isArray(rule.children) || !Array.isArray(rule.expansion)) {
+      throw new Error('Invalid grammar: every rule needs a symbol, children and expansion');
+    }
+    if (!isValidPath(rule.symbol)) throw new Error(`Invalid grammar: symbol "${rule.symbol}" is not a base-3 path`);
+    if (!addRule(grammar, { ...rule, gain: rule.gain ?? 0, frequency: rule.frequency ?? 1 })) {
+      throw new Error(`Invalid grammar: duplicate symbol ${rule.symbol}`);
+    }
+  }
+  return grammar;
+}
+
+/** validateGrammar (which runs hasCycles), so nothing cyclic or dangling is ever expanded */
+function assertValid(grammar: Grammar): void {
+  const errors = validateGrammar(grammar);
+  if (errors.length > 0) throw new Error(`Invalid grammar: ${errors.join('; ')}`);
+}
+
+function canonicalRules(grammar: Grammar): Rule[] {
+  return Array.from(grammar.rules.values())
+    .sort((a, b) => a.symbol.length - b.symbol.length || (a.symbol < b.symbol ? -1 : a.symbol > b.symbol ? 1 : 0));
+}
+
+/** Deep-copy a value with every Map turned into a plain object (keys stringified) */
+function mapsToObjects<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value, (_, v) => v instanceof Map ? Object.fromEntries(v) : v));
+}
@@ -0,0 +1,138 @@
+/**
+ * Canonical Huffman coding over small integer symbols (token IDs)
+ */
+
+import type { ByteReader, ByteWriter } from './binary.js';
+
+/**
+ * Compute Huffman code lengths for each symbol
+ * @param freq - Frequency per symbol (0 = unused)
+ * @returns Code length per symbol (0 = unused)
+ */
+export function huffmanCodeLengths(freq: number[]): number[] {
+  const lengths = new Array<number>(freq.length).fill(0);
+  const used = freq.map((f, s) => s).filter(s => freq[s] > 0);
+  if (used.length === 1) lengths[used[0]] = 1;
+  if (used.length <= 1) return lengths;
+  
+  // Each node: weight, and parent index once merged
+  const weight: number[] = used.map(s => freq[s]);
+  const parent: number[] = used.map(() => -1);
+  const heap: number[] = used.map((_, i) => i);
+  const less = (a: number, b: number) => weight[heap[a]] < weight[heap[b]] || (weight[heap[a]] === weight[heap[b]] && heap[a] < heap[b]);
+  const swap = (a: number, b: number) => { const t = heap[a]; heap[a] = heap[b]; heap[b] = t; };
+  const down = (i: number) => {
+    for (;;) {
+      const l = 2 * i + 1, r = l + 1;
+      let m = i;
+      if (l < heap.length && less(l, m)) m = l;
+      if (r < heap.length && less(r, m)) m = r;
+      if (m === i) return;
+      swap(i, m); i = m;
+    }
+  };
+  const up = (i: number) => {
+    while (i > 0 && less(i, (i - 1) >> 1)) { swap(i, (i - 1) >> 1); i = (i - 1) >> 1; }
+  };
+  const pop = () => { const top = heap[0]; const last = heap.pop()!; if (heap.length) { heap[0] = last; down(0); } return top; };
+  
+  for (let i = (heap.length >> 1) - 1; i >= 0; i--) down(i);
+  while (heap.length > 1) {
+    const a = pop(), b = pop();
+    const node = weight.length;
+    weight.push(weight[a] + weight[b]);
+    parent.push(-1);
+    parent[a] = node; parent[b] = node;
+    heap.push(node); up(heap.length - 1);
+  }
+  
+  // Depth of a leaf = number of parent hops to the root
+  const depth = new Array<number>(weight.length).fill(0);
+  for (let n = weight.length - 2; n >= 0; n--) depth[n] = depth[parent[n]] + 1;
+  used.forEach((s, i) => { lengths[s] = depth[i]; });
+  return lengths;
+}
+
+/** Symbols ordered canonically: by code length, then by symbol ID */
+function canonicalOrder(lengths: Map<number, number>): number[] {
+  return [...lengths.keys()].sort((a, b) => lengths.get(a)! - lengths.get(b)! || a - b);
+}
+
+/**
+ * Write symbols as a canonical Huffman bitstream
+ * Layout: varint used-symbol count, then per used symbol (ascending) varint ID delta
+ * and u8 code length, varint symbol count, MSB-first bits
+ * @param symbols - Symbol IDs to encode
+ * @param out - Destination writer
+ */
+export function writeHuffman(symbols: ArrayLike<number>, out: ByteWriter): void {
+  const freqById = new Map<number, number>();
+  for (let i = 0; i < symbols.length; i++) freqById.set(symbols[i], (freqById.get(symbols[i]) || 0) + 1);
+  const used = [...freqById.keys()].sort((a, b) => a - b);
+  const codeLengths = huffmanCodeLengths(used.map(s => freqById.get(s)!));
+  const lengths = new Map(used.map((s, i) => [s, codeLengths[i]]));
+  
+  out.varint(used.length);
+  used.forEach((s, i) => { out.varint(s - (i ? used[i - 1] : 0)); out.byte(codeLengths[i]); });
+  out.varint(symbols.length);
+  
+  // Canonical codes; stored as bit arrays so lengths beyond 32 bits stay exact
+  const codes = new Map<number, number[]>();
+  const code: number[] = [];
+  for (const s of canonicalOrder(lengths)) {
+    while (code.length < lengths.get(s)!) code.push(0);
+    codes.set(s, code.slice());
+    for (let i = code.length - 1; i >= 0; i--) { if (code[i] === 0) { code[i] = 1; break; } code[i] = 0; }
+  }
+  
+  let acc = 0, nbits = 0;
+  for (let i = 0; i < symbols.length; i++) {
+    for (const bit of codes.get(symbols[i])!) {
+      acc = (acc << 1) | bit;
+      if (++nbits === 8) { out.byte(acc); acc = 0; nbits = 0; }
+    }
+  }
+  if (nbits > 0) out.byte(acc << (8 - nbits));
+}
+
+/**
+ * Read a bitstream written by writeHuffman
+ * @param input - Reader positioned at the code table
+ * @returns Decoded symbol IDs
+ * @throws Error on malformed code tables or truncated bitstreams
+ */
+export function readHuffman(input: ByteReader): number[] {
+  const lengths = new Map<number, number>();
+  let symbol = 0;
+  for (let n = input.varint(), i = 0; i < n; i++) {
+    symbol += input.varint();
+    const len = input.byte();
+    if (len === 0) throw new Error('Invalid Huffman code length');
+    lengths.set(symbol, len);
+  }
+  const count = input.varint();
+  
+  let maxLen = 0;
+  for (const len of lengths.values()) maxLen = Math.max(maxLen, len);
+  const perLength = new Array<number>(maxLen + 1).fill(0);
+  for (const len of lengths.values()) perLength[len]++;
+  const sorted = canonicalOrder(lengths);
+  if (count > 0 && sorted.length === 0) throw new Error('Huffman table has no symbols');
+  
+  const out = new Array<number>(count);
+  let byte = 0, bitsLeft = 0;
+  for (let i = 0; i < count; i++) {
+    let code = 0, first = 0, index = 0, len = 1;
+    for (;; len++) {
+      if (len > maxLen) throw new Error('Invalid Huffman code');
+      if (bitsLeft === 0) { byte = input.byte(); bitsLeft = 8; }
+      code += (byte >> --bitsLeft) & 1;
+      if (code - first < perLength[len]) break;
+      index += perLength[len];
+      first = (first + perLength[len]) * 2;
+      code *= 2;
+    }
+    out[i] = sorted[index + code - first];
+  }
+  return out;
+}
@@ -1 +1 @@
-export * from './types.js'; export * from './glyph.js'; export * from './utils.js'; export * from './store.js'; export * from './encode.js'; export * from './bitmap.js'; export * from './tokenize.js'; export * from './minePhrases.js'; export * from './glyphPool.js'; export * from './trainer.js'; export * from './trie.js'; export * from './address.js'; export * from './mdl.js'; export * from './path.js'; export * from './grammar.js'; export * from './mine.js'; export * from './repair.js'; export * from './fgt.js';
\ No newline at end of file
+export * from './types.js'; export * from './glyph.js'; export * from './utils.js'; export * from './store.js'; export * from './encode.js'; export * from './bitmap.js'; export * from './tokenize.js'; export * from './minePhrases.js'; export * from './glyphPool.js'; export * from './trainer.js'; export * from './trie.js'; export * from './glyphDictionary.js'; export * from './binary.js'; export * from './huffman.js'; export * from './ftz.js'; export * from './stream.js'; export * from './address.js'; export * from './mdl.js'; export * from './path.js'; export * from './grammar.js'; export * from './mine.js'; export * from './repair.js'; export * from './fgt.js'; export * from './compact.js'; export * from './query.js'; export * from './queryLanguage.js'; export * from './rank.js'; export * from './termDictionary.js'; export * from './snippet.js'; export * from './grammarFormat.js';
\ No newline at end of file
@@ -4,8 +4,8 @@
 
 export interface Rule {
   symbol: string;        // Address path (e.g., "021")
-  children: string[];    // Child symbol addresses
-  expansion: string[];   // Original phrase tokens
+  children: string[];    // Child symbols: rule paths, or literal tokens (see escapeGrammarLiteral)
+  expansion: string[];   // Phrase the rule was defined for, as symbols like children
   gain: number;          // MDL gain score
   frequency: number;     // How often this rule is used
 }
@@ -16,6 +16,118 @@ export interface Grammar {
   depth: number;             // Maximum depth reached
 }
 
+/**
+ * Pluggable description-length model for grammar induction; every cost is in bytes (fractions allowed)
+ * - ruleCost: writing one rule definition, before the lambda penalty
+ * - symbolCost: one reference to a symbol in the stream
+ * - phraseCost: the tokens a rule replaces, as they would appear in the stream
+ * - streamCost: a whole stream
+ * - lexiconCost: spelling out the distinct literal tokens once
+ */
+export interface CostModel {
+  name: string;
+  ruleCost(rule: Rule, context: CostContext): number;
+  symbolCost(symbol: string, context: CostContext): number;
+  phraseCost(tokens: string[], context: CostContext): number;
+  streamCost(stream: string[]): number;
+  lexiconCost(literals: Iterable<string>): number;
+}
+
+/** What a cost model may need to know about the stream being compressed */
+export interface CostContext {
+  alphabetSize: number;   // Distinct symbols (literals and rules) a stream reference chooses from
+}
+
+export type CostModelName = 'bytes' | 'entropy';
+
+export const COST_MODEL_NAMES: CostModelName[] = ['bytes', 'entropy'];
+
+/** Cost model used when none is configured */
+export const DEFAULT_COST_MODEL: CostModelName = 'bytes';
+
+/** Context for callers that do not track the stream's alphabet: one byte per symbol */
+export const DEFAULT_COST_CONTEXT: CostContext = { alphabetSize: 256 };
+
+/**
+ * Resolve a cost model by name
+ * @param name - Cost model name
+ * @returns Cost model
+ */
+export function getCostModel(name: string = DEFAULT_COST_MODEL): CostModel {
+  switch (name) {
+    case 'bytes': return byteCostModel();
+    case 'entropy': return entropyCostModel();
+    default:
+      throw new Error(`Unknown cost model "${name}" (expected one of: ${COST_MODEL_NAMES.join(', ')})`);
+  }
+}
+
+/**
+ * Character-count model of the DEF/STREAM text form (ruleCost, ruleSavings)
+ */
+export function byteCostModel(): CostModel {
+  return {
+    name: 'bytes',
+    ruleCost: rule => ruleCost(rule),
+    symbolCost: symbol => symbol.length,
+    phraseCost: tokens => tokens.join(' ').length,
+    streamCost: stream => stream.length * 4, // "REF " + symbol
+    lexiconCost: () => 0                     // Literals are spelled out in rule expansions
+  };
+}
+
+/**
+ * Information-theoretic model: what an entropy coder over the stream would emit
+ * - a stream reference costs log2(alphabet size) bits
+ * - a rule is its path (Elias gamma depth, log2(3) bits per digit) and its children
+ *   (Elias gamma count, one reference each); the expansion follows from the children
+ * - a stream costs its empirical zero-order entropy plus the Elias gamma symbol counts
+ */
+export function entropyCostModel(): CostModel {
+  const ref = (context: CostContext) => Math.log2(Math.max(context.alphabetSize, 2));
+  return {
+    name: 'entropy',
+    ruleCost: (rule, context) =>
+      (pathBits(rule.symbol) + eliasGammaBits(rule.children.length) + rule.children.length * ref(context)) / 8,
+    symbolCost: (_, context) => ref(context) / 8,
+    phraseCost: (tokens, context) => tokens.length * ref(context) / 8,
+    streamCost: stream => {
+      const counts = new Map<string, number>();
+      for (const symbol of stream) counts.set(symbol, (counts.get(symbol) || 0) + 1);
+      let bits = 0;
+      for (const count of counts.values()) bits += count * Math.log2(stream.length / count) + eliasGammaBits(count);
+      return bits / 8;
+    },
+    lexiconCost: literals => {
+      let bytes = 0;
+      for (const literal of literals) bytes += new TextEncoder().encode(literal).length + 1; // + separator
+      return bytes;
+    }
+  };
+}
+
+/** Bits of the Elias gamma code for n >= 1 */
+export function eliasGammaBits(n: number): number {
+  return n < 1 ? 1 : 2 * Math.floor(Math.log2(n)) + 1;
+}
+
+/** Bits of a base-3 path: its depth, then log2(3) per digit */
+export function pathBits(path: string): number {
+  return eliasGammaBits(path.length) + path.length * Math.log2(3);
+}
+
+/**
+ * Distinct symbols a stream reference chooses from: stream symbols plus rules
+ * @param grammar - Current grammar
+ * @param stream - Current stream
+ * @param extra - Symbols about to be added (e.g. a candidate rule)
+ */
+export function costContext(grammar: Grammar, stream: string[], extra: number = 0): CostContext {
+  const symbols = new Set(stream);
+  for (const symbol of grammar.symbols) symbols.add(symbol);
+  return { alphabetSize: symbols.size + extra };
+}
+
 /**
  * Calculate byte cost of a rule definition
  * @param rule - The rule to cost
@@ -49,11 +161,19 @@ export function ruleSavings(rule: Rule, frequency: number): number {
  * @param rule - The candidate rule
  * @param frequency - How many times it would be used
  * @param lambda - Rule cost penalty factor
+ * @param model - Cost model (default: bytes)
+ * @param context - Stream alphabet for the model
  * @returns MDL gain (positive = beneficial)
  */
-export function mdlGain(rule: Rule, frequency: number, lambda: number = 1.0): number {
-  const savings = ruleSavings(rule, frequency);
-  const cost = ruleCost(rule, lambda);
+export function mdlGain(
+  rule: Rule,
+  frequency: number,
+  lambda: number = 1.0,
+  model: CostModel = byteCostModel(),
+  context: CostContext = DEFAULT_COST_CONTEXT
+): number {
+  const savings = (model.phraseCost(rule.expansion, context) - model.symbolCost(rule.symbol, context)) * frequency;
+  const cost = model.ruleCost(rule, context) * lambda;
   return savings - cost;
 }
 
@@ -63,15 +183,19 @@ export function mdlGain(rule: Rule, frequency: number, lambda: number = 1.0): nu
  * @param rule - Candidate rule
  * @param frequency - How many times it would be used
  * @param lambda - Rule cost penalty factor
+ * @param model - Cost model (default: bytes)
+ * @param context - Stream alphabet for the model
  * @returns True if MDL improves
  */
 export function mdlImproves(
   grammar: Grammar, 
   rule: Rule, 
   frequency: number, 
-  lambda: number = 1.0
+  lambda: number = 1.0,
+  model: CostModel = byteCostModel(),
+  context: CostContext = DEFAULT_COST_CONTEXT
 ): boolean {
-  return mdlGain(rule, frequency, lambda) > 0;
+  return mdlGain(rule, frequency, lambda, model, context) > 0;
 }
 
 /**
@@ -79,18 +203,29 @@ export function mdlImproves(
  * @param grammar - The grammar
  * @param stream - Token stream
  * @param lambda - Rule cost penalty factor
+ * @param model - Cost model (default: bytes)
  * @returns Total cost in bytes
  */
-export function totalMdlCost(grammar: Grammar, stream: string[], lambda: number = 1.0): number {
+export function totalMdlCost(
+  grammar: Grammar,
+  stream: string[],
+  lambda: number = 1.0,
+  model: CostModel = byteCostModel()
+): number {
+  const context = costContext(grammar, stream);
+  const literals = new Set<string>();
   let cost = 0;
   
   // Cost of all rules
   for (const rule of grammar.rules.values()) {
-    cost += ruleCost(rule, lambda);
+    cost += model.ruleCost(rule, context) * lambda;
+    for (const child of rule.children) if (!grammar.symbols.has(child)) literals.add(child);
   }
+  for (const symbol of stream) if (!grammar.symbols.has(symbol)) literals.add(symbol);
   
-  // Cost of stream (REF + symbol for each token)
-  cost += stream.length * 4; // "REF " + symbol
+  // Cost of stream and of the literal tokens it and the rules refer to
+  cost += model.streamCost(stream);
+  cost += model.lexiconCost(literals);
   
   return cost;
 }
@@ -101,16 +236,18 @@ export function totalMdlCost(grammar: Grammar, stream: string[], lambda: number
  * @param grammar - Compressed grammar
  * @param stream - Compressed stream
  * @param lambda - Rule cost penalty factor
+ * @param model - Cost model (default: bytes)
  * @returns Compression ratio (0-1, lower = better)
  */
 export function compressionRatio(
   original: string,
   grammar: Grammar,
   stream: string[],
-  lambda: number = 1.0
+  lambda: number = 1.0,
+  model: CostModel = byteCostModel()
 ): number {
   const originalBytes = new TextEncoder().encode(original).length;
-  const compressedBytes = totalMdlCost(grammar, stream, lambda);
+  const compressedBytes = totalMdlCost(grammar, stream, lambda, model);
   return compressedBytes / originalBytes;
 }
 
@@ -118,17 +255,21 @@ export function compressionRatio(
  * Find the most beneficial rule to add
  * @param candidates - Candidate rules with frequencies
  * @param lambda - Rule cost penalty factor
+ * @param model - Cost model (default: bytes)
+ * @param context - Stream alphabet for the model
  * @returns Best rule or null if none beneficial
  */
 export function findBestRule(
   candidates: Array<{ rule: Rule; frequency: number }>,
-  lambda: number = 1.0
+  lambda: number = 1.0,
+  model: CostModel = byteCostModel(),
+  context: CostContext = DEFAULT_COST_CONTEXT
 ): { rule: Rule; frequency: number; gain: number } | null {
   let best = null;
   let bestGain = -Infinity;
   
   for (const candidate of candidates) {
-    const gain = mdlGain(candidate.rule, candidate.frequency, lambda);
+    const gain = mdlGain(candidate.rule, candidate.frequency, lambda, model, context);
     if (gain > bestGain) {
       bestGain = gain;
       best = { ...candidate, gain };
@@ -85,16 +85,20 @@ export function mineNgrams(
 }
 
 /**
- * Mine high-order n-grams (5-grams down to 2-grams)
+ * Mine high-order n-grams (nMax-grams down to nMin-grams)
  * @param tokens - Input token stream
  * @param topK - Number of top candidates to return
+ * @param nMin - Minimum n-gram size
+ * @param nMax - Maximum n-gram size
  * @returns Top K candidates
  */
 export function mineHighOrder(
   tokens: string[],
-  topK: number = 100
+  topK: number = 100,
+  nMin: number = 2,
+  nMax: number = 5
 ): Candidate[] {
-  const candidates = mineNgrams(tokens, 2, 5);
+  const candidates = mineNgrams(tokens, nMin, nMax);
   return candidates.slice(0, topK);
 }
 
@@ -48,38 +48,50 @@ export function fromBase3(path: Path): number {
  * @returns Next available path
  */
 export function nextPath(usedPaths: Set<Path>, depth: number): Path {
-  let candidate = toBase3(0, depth);
-  let counter = 0;
-  
-  while (usedPaths.has(candidate)) {
-    counter++;
-    candidate = toBase3(counter, depth);
-    
-    // Prevent infinite loop (shouldn't happen in practice)
-    if (counter > Math.pow(3, depth)) {
-      throw new Error(`No available paths at depth ${depth}`);
-    }
+  for (let counter = 0; counter < Math.pow(3, depth); counter++) {
+    const candidate = toBase3(counter, depth);
+    if (!usedPaths.has(candidate)) return candidate;
   }
-  
-  return candidate;
+  throw new Error(`No available paths at depth ${depth}`);
+}
+
+/**
+ * Where the last search of a path set stopped: paths before it were all in use.
+ * Paths are only added to a grammar's set, so the search resumes here instead of rescanning.
+ */
+interface PathCursor {
+  depth: number;
+  counter: number;
+  size: number; // Set size when the cursor was saved; a smaller set means paths were removed
 }
 
+const cursors = new WeakMap<Set<Path>, PathCursor>();
+
 /**
  * Get next available path at any depth (starts with depth 1)
+ * Amortized O(1) per call: a cursor per set skips the paths already found in use
  * @param usedPaths - Set of already used paths
  * @returns Next available path
  */
 export function nextAvailablePath(usedPaths: Set<Path>): Path {
-  let depth = 1;
-  let candidate = nextPath(usedPaths, depth);
+  let cursor = cursors.get(usedPaths);
+  if (!cursor || usedPaths.size < cursor.size) {
+    cursor = { depth: 1, counter: 0, size: 0 };
+    cursors.set(usedPaths, cursor);
+  }
+  cursor.size = usedPaths.size;
   
   // If we've used up all paths at this depth, try next depth
-  while (usedPaths.has(candidate)) {
-    depth++;
-    candidate = nextPath(usedPaths, depth);
+  for (;;) {
+    const capacity = Math.pow(3, cursor.depth);
+    while (cursor.counter < capacity) {
+      const candidate = toBase3(cursor.counter, cursor.depth);
+      if (!usedPaths.has(candidate)) return candidate;
+      cursor.counter++;
+    }
+    cursor.depth++;
+    cursor.counter = 0;
   }
-  
-  return candidate;
 }
 
 /**
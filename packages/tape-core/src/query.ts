@@ -0,0 +1,221 @@
+import type { Token } from './types.js';
+import type { TapeStore } from './store.js';
+import type { GlyphEntry } from './trainer.js';
+import type { AddressSpan } from './utils.js';
+import { DEFAULT_GLYPHS } from './glyph.js';
+import { DEFAULT_TOKENIZER, getTokenizer } from './tokenize.js';
+import { encodeTextToTokens } from './encode.js';
+import { normalizeWords } from './utils.js';
+import { parseTermPattern, matchTermPattern, loadTermDictionary, MAX_EXPANSIONS, type TermDictionary } from './termDictionary.js';
+
+/** A query term: one token sequence, or alternatives of which any one counts as the term */
+export type QueryTerm = Token[] | { anyOf: Token[][] };
+
+/** Token sequences that count as a hit for the term */
+export function termAlternatives(term: QueryTerm): Token[][] {
+  return Array.isArray(term) ? [term] : term.anyOf;
+}
+
+/** A query split into its quoted phrases and the loose words around them */
+export interface PhraseQuery {
+  phrases: string[];
+  words: string;
+}
+
+/**
+ * Split a query into "quoted phrases" and the remaining words; an unclosed quote runs to the end
+ * @param query - Raw query text, e.g. `"refund policy" late fee`
+ * @returns Quoted segments in order and the unquoted text
+ */
+export function splitPhrases(query: string): PhraseQuery {
+  const phrases: string[] = [];
+  const words = query.replace(/"([^"]*)("|$)/g, (_, phrase: string) => {
+    if (phrase.trim()) phrases.push(phrase.trim());
+    return ' ';
+  });
+  return { phrases, words: words.trim() };
+}
+
+/**
+ * Glyphs the tape was encoded with, read back from its glyph_dict table once per generation (TapeStore.glyphs)
+ * @param store - Open tape store
+ * @returns Glyph entries, or the default glyphs for a tape without a dictionary
+ */
+export function storeGlyphs(store: TapeStore): GlyphEntry[] {
+  const glyphs = store.glyphs();
+  return glyphs.length ? glyphs : DEFAULT_GLYPHS;
+}
+
+const glyphTokenSets = new WeakMap<GlyphEntry[], Set<Token>>();
+
+/**
+ * The glyph tokens of a tape (see storeGlyphs), kept as long as the store's glyph entries are
+ * @param store - Open tape store
+ * @returns Set of glyphs
+ */
+export function storeGlyphTokens(store: TapeStore): Set<Token> {
+  const glyphs = storeGlyphs(store);
+  let tokens = glyphTokenSets.get(glyphs);
+  if (!tokens) glyphTokenSets.set(glyphs, tokens = new Set(glyphs.map(g => g.glyph)));
+  return tokens;
+}
+
+/**
+ * Encode query text exactly as ingest encoded the tape (same tokenizer, same glyph trie)
+ * @param store - Open tape store
+ * @param text - Query text
+ * @param tokenizer - Tokenizer name (default: the one recorded on the tape)
+ * @returns Tokens as they appear in the postings table
+ */
+export function encodeQuery(store: TapeStore, text: string, tokenizer = store.getMeta('tokenizer') ?? DEFAULT_TOKENIZER): Token[] {
+  return encodeTextToTokens(text, storeGlyphs(store), tokenizer);
+}
+
+/**
+ * Glyphs whose phrase contains the word, so a search for "order" also finds text stored as ⇒ ("in order to")
+ * @param store - Open tape store
+ * @param token - Encoded query word
+ * @returns Glyph tokens from glyph_dict (none if the token is itself a glyph)
+ */
+export function glyphsContaining(store: TapeStore, token: Token): Token[] {
+  if (storeGlyphTokens(store).has(token)) return [];
+  return storeGlyphs(store).filter(g => g.phrase.includes(token)).map(g => g.glyph);
+}
+
+/**
+ * Where a query term occurs: findPhrase for each alternative, plus, for single words when expanding,
+ * every occurrence of a glyph whose phrase contains them
+ * @param store - Open tape store
+ * @param term - Encoded term, phrase or alternatives
+ * @param expand - Add glyph expansions for single words
+ * @returns Matched spans in address order
+ */
+export function findTerm(store: TapeStore, term: QueryTerm, expand = false): AddressSpan[] {
+  const spans: AddressSpan[] = [];
+  for (const tokens of termAlternatives(term)) {
+    spans.push(...findPhrase(store, tokens));
+    if (expand && tokens.length === 1) {
+      for (const glyph of glyphsContaining(store, tokens[0])) spans.push(...findPhrase(store, [glyph]));
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/** Options for turning query text into terms */
+export interface QueryTermOptions {
+  tokenizer?: string;
+  /** Term dictionary for `stem*` and `term~k` patterns (loaded from the store when needed) */
+  terms?: TermDictionary;
+  /** Collects patterns (as `stem*` or `stem~k`) that matched more than MAX_EXPANSIONS terms and were cut off */
+  truncated?: string[];
+}
+
+/**
+ * Encode one query word or stretch of words into terms. A `refund*` or `refnd~1` word becomes the
+ * dictionary terms it matches; other text is encoded through the glyph trie, one term per token.
+ * @param store - Open tape store
+ * @param text - Query text without operators or quotes
+ * @param options - Tokenizer and term dictionary
+ * @returns Terms in query order
+ */
+export function queryTerms(store: TapeStore, text: string, options: QueryTermOptions = {}): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  let plain: string[] = [];
+  const flush = () => {
+    // Plain words are encoded together so multi-word glyph phrases still apply
+    terms.push(...encodeQuery(store, plain.join(' '), options.tokenizer).map(t => [t]));
+    plain = [];
+  };
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const pattern = parseTermPattern(word, storeGlyphTokens(store));
+    if (!pattern) { plain.push(word); continue; }
+    flush();
+    const tokenizer = getTokenizer(options.tokenizer ?? store.getMeta('tokenizer') ?? DEFAULT_TOKENIZER);
+    const stem = normalizeWords(pattern.stem, tokenizer);
+    options.terms ??= loadTermDictionary(store);
+    const normalized = { ...pattern, stem: stem.length === 1 ? stem[0] : pattern.stem };
+    const matches = matchTermPattern(options.terms, normalized, MAX_EXPANSIONS + 1);
+    if (matches.length > MAX_EXPANSIONS) {
+      matches.length = MAX_EXPANSIONS;
+      options.truncated?.push(normalized.kind === 'prefix' ? `${normalized.stem}*` : `${normalized.stem}~${normalized.edits}`);
+    }
+    terms.push({ anyOf: matches.map(t => [t]) });
+  }
+  flush();
+  return terms;
+}
+
+/**
+ * Find every place the tokens occur at consecutive addresses within one document
+ * @param store - Open tape store
+ * @param tokens - Encoded phrase (see encodeQuery)
+ * @param limit - Stop after this many matches
+ * @returns Matched spans in address order; `end` is the address of the last token
+ */
+export function findPhrase(store: TapeStore, tokens: Token[], limit = Infinity): AddressSpan[] {
+  if (tokens.length === 0) return [];
+  const countPostings = store.db.prepare('SELECT COUNT(*) as c FROM postings WHERE token_id = (SELECT id FROM token_ids WHERE token = ?)');
+  const docAt = store.db.prepare('SELECT doc FROM doc_bounds WHERE start <= ? AND end > ? LIMIT 1');
+
+  // Anchor on the rarest token and check its neighbours, so common words never drive the scan
+  const counts = tokens.map(t => (countPostings.get(t) as { c: number }).c);
+  const k = counts.indexOf(Math.min(...counts));
+  const matches: AddressSpan[] = [];
+  for (const addr of store.postings(tokens[k], counts[k])) {
+    const start = addr - k, end = start + tokens.length - 1;
+    if (start < 0) continue;
+    const found = store.tokensInRange(start, end + 1);
+    if (found.length !== tokens.length || found.some((t, i) => t !== tokens[i])) continue;
+    const doc = docAt.get(start, start) as { doc: number } | undefined;
+    if (!doc || (docAt.get(end, end) as { doc: number } | undefined)?.doc !== doc.doc) continue;
+    matches.push({ start, end, count: tokens.length, doc: doc.doc });
+    if (matches.length >= limit) break;
+  }
+  return matches;
+}
+
+/** A window in which every NEAR operand occurs; `hits[i]` is where operand i matched */
+export interface NearWindow extends AddressSpan {
+  doc: number;
+  width: number;
+  hits: AddressSpan[];
+}
+
+/**
+ * Find windows where every segment occurs within k addresses, never crossing a document boundary
+ * - for each occurrence, the tightest window ending there is reported (so windows may overlap)
+ * - a window's width is `end - start`: 1 for two adjacent words
+ * @param store - Open tape store
+ * @param operands - Encoded operands (single tokens, phrases or alternatives)
+ * @param k - Maximum width of a window
+ * @param expand - Let single words match glyphs whose phrase contains them (see findTerm)
+ * @returns Windows ordered by width (tightest first), then address
+ */
+export function findNear(store: TapeStore, operands: QueryTerm[], k: number, expand = false): NearWindow[] {
+  if (operands.length === 0 || operands.some(o => termAlternatives(o).every(a => a.length === 0))) return [];
+
+  // Occurrences of every segment, grouped by document
+  const byDoc = new Map<number, { seg: number; span: AddressSpan }[]>();
+  operands.forEach((term, seg) => {
+    for (const span of findTerm(store, term, expand)) {
+      if (!byDoc.has(span.doc!)) byDoc.set(span.doc!, []);
+      byDoc.get(span.doc!)!.push({ seg, span });
+    }
+  });
+
+  const windows: NearWindow[] = [];
+  for (const [doc, occ] of byDoc) {
+    occ.sort((a, b) => a.span.start - b.span.start || a.seg - b.seg);
+    const last: (AddressSpan | undefined)[] = new Array(operands.length);
+    for (const { seg, span } of occ) {
+      last[seg] = span;
+      if (last.some(s => !s)) continue;
+      // Tightest window ending at this occurrence: the latest occurrence of every other segment
+      const hits = last as AddressSpan[];
+      const start = Math.min(...hits.map(h => h.start));
+      const end = Math.max(...hits.map(h => h.end));
+      if (end - start <= k) windows.push({ start, end, count: hits.length, doc, width: end - start, hits: hits.slice() });
+    }
+  }
+  return windows.sort((a, b) => a.width - b.width || a.start - b.start);
+}
@@ -0,0 +1,278 @@
+import type { DocID, Token } from './types.js';
+import type { TapeStore } from './store.js';
+import type { AddressSpan } from './utils.js';
+import { intersectTokenDocs, unionTokenDocs, intersectDocs, unionDocs, differenceDocs, type BitmapIndex } from './bitmap.js';
+import { encodeQuery, findPhrase, findTerm, findNear, glyphsContaining, queryTerms, storeGlyphTokens, termAlternatives, type NearWindow, type QueryTerm } from './query.js';
+import { parseTermPattern, type TermDictionary } from './termDictionary.js';
+
+/**
+ * Parsed boolean query. AND/OR are n-ary; a term is a single query word, a phrase a "quoted" segment.
+ * NEAR joins terms and phrases that must all occur within k addresses of each other.
+ */
+export type QueryNode =
+  | { type: 'term'; text: string }
+  | { type: 'phrase'; text: string }
+  | { type: 'near'; k: number; children: QueryLeaf[] }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export type QueryLeaf = Extract<QueryNode, { type: 'term' | 'phrase' }>;
+
+type Lexeme = { kind: 'word' | 'phrase' | 'and' | 'or' | 'not' | 'near' | 'open' | 'close'; text: string; pos: number };
+
+const OPERATORS: Record<string, Lexeme['kind']> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+/**
+ * Does the text use the boolean query language (upper-case AND/OR/NOT/NEAR/k or parentheses)?
+ * @param query - Raw query text
+ * @returns true if parseQuery should be used instead of a plain token query
+ */
+export function isBooleanQuery(query: string): boolean {
+  return /(^|[\s()"])(AND|OR|NOT|NEAR\/\d+)(?=$|[\s()"])|[()]/.test(query);
+}
+
+/**
+ * Parse a boolean query such as `(refund OR chargeback) AND NOT "test account"`
+ * - Operators are upper-case; lower-case and/or/not are ordinary words
+ * - NEAR/k binds tightest and only joins terms and phrases; chained NEARs must share k
+ * - then NOT, then AND, then OR; adjacent terms are ANDed
+ * @param query - Query text
+ * @returns Query tree
+ * @throws Error naming the position of the first syntax error
+ */
+export function parseQuery(query: string): QueryNode {
+  const lexemes = lex(query);
+  let i = 0;
+  const peek = () => lexemes[i];
+  const fail = (what: string): never => {
+    const at = peek();
+    throw new Error(`Expected ${what} at ${at ? `"${at.text}" (position ${at.pos})` : 'end of query'}`);
+  };
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') { i++; children.push(parseAnd()); }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (next?.kind === 'and') { i++; children.push(parseUnary()); }
+      else if (next && next.kind !== 'or' && next.kind !== 'close') children.push(parseUnary());
+      else break;
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+  const parseUnary = (): QueryNode => {
+    const next = peek();
+    if (!next) return fail('a term');
+    if (next.kind === 'not') { i++; return { type: 'not', child: parseUnary() }; }
+    const first = parsePrimary();
+    if (peek()?.kind !== 'near') return first;
+    const k = Number(peek().text.slice(5));
+    const children = [first];
+    while (peek()?.kind === 'near') {
+      if (Number(peek().text.slice(5)) !== k) fail(`NEAR/${k}`);
+      i++;
+      children.push(parsePrimary());
+    }
+    const leaves = children.filter((c): c is QueryLeaf => c.type === 'term' || c.type === 'phrase');
+    if (leaves.length !== children.length) throw new Error(`NEAR/${k} only joins terms and "phrases"`);
+    return { type: 'near', k, children: leaves };
+  };
+  const parsePrimary = (): QueryNode => {
+    const next = peek();
+    if (!next) return fail('a term');
+    i++;
+    switch (next.kind) {
+      case 'word': return { type: 'term', text: next.text };
+      case 'phrase': return { type: 'phrase', text: next.text };
+      case 'open': {
+        const inner = parseOr();
+        if (peek()?.kind !== 'close') fail('")"');
+        i++;
+        return inner;
+      }
+      default: i--; return fail('a term');
+    }
+  };
+
+  const tree = parseOr();
+  if (i < lexemes.length) fail('AND, OR or end of query');
+  return tree;
+}
+
+function lex(query: string): Lexeme[] {
+  const out: Lexeme[] = [];
+  const re = /\s*(?:(\()|(\))|"([^"]*)"?|([^\s()"]+))/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(query)) && m[0]) {
+    const pos = m.index + m[0].length - m[0].trimStart().length;
+    if (m[1]) out.push({ kind: 'open', text: '(', pos });
+    else if (m[2]) out.push({ kind: 'close', text: ')', pos });
+    else if (m[3] !== undefined) out.push({ kind: 'phrase', text: m[3].trim(), pos });
+    else out.push({ kind: OPERATORS[m[4]] ?? (/^NEAR\/\d+$/.test(m[4]) ? 'near' : 'word'), text: m[4], pos });
+  }
+  return out;
+}
+
+/** What a query is evaluated against */
+export interface QueryContext {
+  index: BitmapIndex;
+  store: TapeStore;
+  tokenizer?: string;
+  /** Let single words match glyphs whose phrase contains them (see glyphsContaining) */
+  expand?: boolean;
+  /** Term dictionary for `stem*` and `term~k` words (loaded on first use if omitted) */
+  terms?: TermDictionary;
+}
+
+/**
+ * Evaluate a query tree to the documents that satisfy it
+ * - single-token terms (and prefix/fuzzy expansions) are answered from the bitmap index, together with their glyph expansions
+ * - phrases, and words that encode to several tokens, must match consecutive addresses (findPhrase)
+ * - NOT is taken relative to every document on the tape
+ * @param node - Parsed query
+ * @param ctx - Bitmap index and store for the tape
+ * @returns Matching doc IDs, ascending
+ */
+export function evaluateQuery(node: QueryNode, ctx: QueryContext): DocID[] {
+  switch (node.type) {
+    case 'term':
+    case 'phrase': {
+      const term = leafTerm(node, ctx);
+      const tokens = indexTokens(term, ctx);
+      return tokens ? unionTokenDocs(ctx.index, tokens) : docsOf(findTerm(ctx.store, term, ctx.expand));
+    }
+    case 'near':
+      return docsOf(findNear(ctx.store, node.children.map(c => leafTerm(c, ctx)), node.k, ctx.expand));
+    case 'not':
+      return differenceDocs(ctx.store.docs().map(d => d.doc), evaluateQuery(node.child, ctx));
+    case 'and': {
+      // Plain single tokens go to the index in one call; NOT children are subtracted at the end
+      const plain = node.children.map(c => plainToken(c, ctx));
+      const single = plain.filter((t): t is Token => t !== null);
+      if (single.some(t => !ctx.index.tokenToDocs.has(t))) return [];
+      let docs: DocID[] | null = single.length ? intersectTokenDocs(ctx.index, single) : null;
+      node.children.forEach((child, i) => {
+        if (child.type === 'not' || plain[i] !== null) return;
+        const d = evaluateQuery(child, ctx);
+        docs = docs ? intersectDocs(docs, d) : d;
+      });
+      let result = docs ?? ctx.store.docs().map(d => d.doc);
+      for (const child of node.children) {
+        if (child.type === 'not') result = differenceDocs(result, evaluateQuery(child.child, ctx));
+      }
+      return result;
+    }
+    case 'or': {
+      // Every leaf the index can answer is unioned in one call
+      const indexed = node.children.map(c => isLeaf(c) ? indexTokens(leafTerm(c, ctx), ctx) : null);
+      let docs = unionTokenDocs(ctx.index, indexed.flatMap(t => t ?? []));
+      node.children.forEach((child, i) => { if (!indexed[i]) docs = unionDocs(docs, evaluateQuery(child, ctx)); });
+      return docs;
+    }
+  }
+}
+
+/**
+ * Encode a term or phrase leaf: `stem*` and `term~k` words expand through the term dictionary,
+ * anything else is one token sequence
+ * @param node - Term or phrase node
+ * @param ctx - Store, tokenizer and term dictionary for the tape
+ * @returns The leaf as a query term
+ */
+export function leafTerm(node: QueryLeaf, ctx: Omit<QueryContext, 'index'>): QueryTerm {
+  if (node.type === 'term' && parseTermPattern(node.text, storeGlyphTokens(ctx.store))) return queryTerms(ctx.store, node.text, ctx)[0];
+  return encodeQuery(ctx.store, node.text, ctx.tokenizer);
+}
+
+/**
+ * Where the positive (non-negated) terms and phrases of a query occur within an address range
+ * @param node - Parsed query
+ * @param ctx - Store and tokenizer for the tape
+ * @param start - First address of the range (e.g. a document's start)
+ * @param end - End of the range, exclusive
+ * @param limit - Maximum number of hits to return
+ * @returns Hit spans in address order; `end` is the address of the last token
+ */
+export function queryHits(node: QueryNode, ctx: Omit<QueryContext, 'index'>, start: number, end: number, limit = 100): AddressSpan[] {
+  const inRange = ctx.store.db.prepare('SELECT addr FROM postings WHERE token_id = (SELECT id FROM token_ids WHERE token = ?) AND addr >= ? AND addr < ? ORDER BY addr LIMIT ?');
+  const hits: AddressSpan[] = [];
+  for (const tokens of positiveTerms(node, ctx).flatMap(termAlternatives)) {
+    if (tokens.length === 1) {
+      for (const token of withGlyphs(tokens[0], ctx)) {
+        for (const { addr } of inRange.all(token, start, end, limit) as { addr: number }[]) hits.push({ start: addr, end: addr, count: 1 });
+      }
+    } else if (tokens.length > 1) {
+      hits.push(...findPhrase(ctx.store, tokens).filter(s => s.start >= start && s.end < end));
+    }
+  }
+  return hits.sort((a, b) => a.start - b.start).slice(0, limit);
+}
+
+/** Text of every term and phrase that is not under a NOT */
+export function positiveTexts(node: QueryNode): string[] {
+  return positiveLeaves(node).map(l => l.text);
+}
+
+/**
+ * Encoded terms and phrases that are not under a NOT, e.g. for ranking the matched documents
+ * @param node - Parsed query
+ * @param ctx - Store, tokenizer and term dictionary for the tape
+ * @returns One query term per positive leaf
+ */
+export function positiveTerms(node: QueryNode, ctx: Omit<QueryContext, 'index'>): QueryTerm[] {
+  return positiveLeaves(node).map(l => leafTerm(l, ctx));
+}
+
+/**
+ * Windows for every NEAR operator outside a NOT, tightest first
+ * @param node - Parsed query
+ * @param ctx - Store and tokenizer for the tape
+ * @returns Matching windows across all NEAR operators
+ */
+export function nearWindows(node: QueryNode, ctx: Omit<QueryContext, 'index'>): NearWindow[] {
+  switch (node.type) {
+    case 'near': return findNear(ctx.store, node.children.map(c => leafTerm(c, ctx)), node.k, ctx.expand);
+    case 'and':
+    case 'or': return node.children.flatMap(c => nearWindows(c, ctx)).sort((a, b) => a.width - b.width || a.start - b.start);
+    default: return [];
+  }
+}
+
+function positiveLeaves(node: QueryNode): QueryLeaf[] {
+  switch (node.type) {
+    case 'term':
+    case 'phrase': return [node];
+    case 'not': return [];
+    default: return (node.children as QueryNode[]).flatMap(positiveLeaves);
+  }
+}
+
+function isLeaf(node: QueryNode): node is QueryLeaf {
+  return node.type === 'term' || node.type === 'phrase';
+}
+
+/** Tokens whose index bitmaps answer the term, or null if it needs positional matching */
+function indexTokens(term: QueryTerm, ctx: Omit<QueryContext, 'index'>): Token[] | null {
+  const alternatives = termAlternatives(term);
+  if (!alternatives.every(a => a.length === 1)) return null;
+  return alternatives.flatMap(([t]) => withGlyphs(t, ctx));
+}
+
+/** The single index token of a plain leaf, or null */
+function plainToken(node: QueryNode, ctx: Omit<QueryContext, 'index'>): Token | null {
+  const tokens = isLeaf(node) ? indexTokens(leafTerm(node, ctx), ctx) : null;
+  return tokens?.length === 1 ? tokens[0] : null;
+}
+
+function withGlyphs(token: Token, ctx: Omit<QueryContext, 'index'>): Token[] {
+  return ctx.expand ? [token, ...glyphsContaining(ctx.store, token)] : [token];
+}
+
+function docsOf(spans: { doc?: DocID }[]): DocID[] {
+  return Array.from(new Set(spans.map(s => s.doc!))).sort((a, b) => a - b);
+}
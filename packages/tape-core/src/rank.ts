@@ -0,0 +1,131 @@
+import type { DocID, Token } from './types.js';
+import type { TapeStore } from './store.js';
+import type { AddressSpan } from './utils.js';
+import { findPhrase, glyphsContaining, termAlternatives, type QueryTerm } from './query.js';
+
+export const BM25_K1 = 1.2;
+export const BM25_B = 0.75;
+
+/** Where one query term (index into the ranked segments) matched, weighted by the term's IDF */
+export interface TermHit extends AddressSpan {
+  term: number;
+  weight: number;
+}
+
+export interface RankedDoc {
+  doc: DocID;
+  score: number;
+  hits: TermHit[];
+}
+
+export interface RankOptions {
+  k1?: number;
+  b?: number;
+  /** Only rank these documents (e.g. the result of a boolean query); otherwise any doc with a hit */
+  docs?: DocID[];
+  /** Drop documents missing any term */
+  requireAll?: boolean;
+  /** Count glyphs whose phrase contains a single-word term as hits for it (see glyphsContaining) */
+  expand?: boolean;
+}
+
+/**
+ * Rank documents with BM25 over the postings and doc_bounds tables
+ * - every segment is one term: a plain word, a glyph, a multi-token phrase counted by its exact matches, or
+ *   alternatives (prefix/fuzzy expansions) that all count as the term, so glyph tokens and words are scored
+ *   the same way; with `expand`, a word's glyph expansions count as the word
+ * - document length is its address count (end - start), i.e. tokens after glyphing
+ * @param store - Open tape store
+ * @param segments - Encoded query terms (see queryTerms)
+ * @param options - BM25 parameters and candidate filtering
+ * @returns Documents by descending score (ties by doc ID), each with its term hits in address order
+ */
+export function rankDocs(store: TapeStore, segments: QueryTerm[], options: RankOptions = {}): RankedDoc[] {
+  const k1 = options.k1 ?? BM25_K1, b = options.b ?? BM25_B;
+  const bounds = store.docs().sort((x, y) => x.start - y.start);
+  const N = bounds.length;
+  if (N === 0) return [];
+  const avgdl = bounds.reduce((n, d) => n + d.end - d.start, 0) / N || 1;
+
+  // Term hits per document
+  const hitsByDoc = new Map<DocID, TermHit[]>();
+  const df = segments.map(() => 0);
+  const tf = new Map<DocID, number[]>();
+  segments.forEach((segment, term) => {
+    const spans = termAlternatives(segment).flatMap(tokens =>
+      tokens.length === 1 ? locate(bounds, termPostings(store, tokens[0], options.expand)) : tokens.length ? findPhrase(store, tokens) : []);
+    for (const span of spans) {
+      const doc = span.doc!;
+      if (!tf.has(doc)) { tf.set(doc, segments.map(() => 0)); hitsByDoc.set(doc, []); }
+      if (tf.get(doc)![term]++ === 0) df[term]++;
+      hitsByDoc.get(doc)!.push({ ...span, term, weight: 0 });
+    }
+  });
+  const idf = df.map(n => Math.log(1 + (N - n + 0.5) / (n + 0.5)));
+
+  const lengths = new Map(bounds.map(d => [d.doc, d.end - d.start]));
+  const candidates = options.docs ?? Array.from(tf.keys());
+  const ranked: RankedDoc[] = [];
+  for (const doc of candidates) {
+    const counts = tf.get(doc) ?? segments.map(() => 0);
+    if (options.requireAll && counts.some(c => c === 0)) continue;
+    const norm = k1 * (1 - b + b * (lengths.get(doc) ?? 0) / avgdl);
+    const score = counts.reduce((s, c, i) => s + idf[i] * c * (k1 + 1) / (c + norm), 0);
+    const hits = (hitsByDoc.get(doc) ?? []).map(h => ({ ...h, weight: idf[h.term] })).sort((x, y) => x.start - y.start);
+    ranked.push({ doc, score, hits });
+  }
+  return ranked.sort((x, y) => y.score - x.score || x.doc - y.doc);
+}
+
+/** A snippet window around the densest cluster of term hits */
+export interface Snippet extends AddressSpan {
+  score: number;
+  hits: TermHit[];
+}
+
+/**
+ * Pick the best non-overlapping snippet windows of a ranked document
+ * - a window is `context` addresses either side of a hit, scored by the IDF of the distinct terms inside it
+ * @param hits - Term hits in address order (RankedDoc.hits)
+ * @param context - Addresses of context on each side of a hit
+ * @param n - Maximum number of snippets
+ * @returns Snippets in address order
+ */
+export function bestSnippets(hits: TermHit[], context: number, n = 3): Snippet[] {
+  const candidates: Snippet[] = [];
+  for (let i = 0, lo = 0; i < hits.length; i++) {
+    const start = Math.max(0, hits[i].start - context), end = hits[i].end + context;
+    while (hits[lo].start < start) lo++;
+    const inside: TermHit[] = [];
+    for (let j = lo; j < hits.length && hits[j].start <= end; j++) if (hits[j].end <= end) inside.push(hits[j]);
+    const weights = new Map(inside.map(h => [h.term, h.weight]));
+    const score = Array.from(weights.values()).reduce((s, w) => s + w, 0);
+    candidates.push({ start, end, count: inside.length, score, hits: inside });
+  }
+
+  const chosen: Snippet[] = [];
+  for (const c of candidates.sort((x, y) => y.score - x.score || x.start - y.start)) {
+    if (chosen.length >= n) break;
+    if (chosen.every(s => c.end < s.start || c.start > s.end)) chosen.push(c);
+  }
+  return chosen.sort((x, y) => x.start - y.start);
+}
+
+/** Sorted addresses of a token and, when expanding, of the glyphs that contain it */
+function termPostings(store: TapeStore, token: Token, expand = false): number[] {
+  const addrs = store.postings(token);
+  if (!expand) return addrs;
+  for (const glyph of glyphsContaining(store, token)) addrs.push(...store.postings(glyph));
+  return addrs.sort((a, b) => a - b);
+}
+
+/** Attach doc IDs to sorted addresses by walking the sorted document bounds */
+function locate(bounds: { doc: DocID; start: number; end: number }[], addrs: number[]): AddressSpan[] {
+  const spans: AddressSpan[] = [];
+  let i = 0;
+  for (const addr of addrs) {
+    while (i < bounds.length && bounds[i].end <= addr) i++;
+    if (i < bounds.length && bounds[i].start <= addr) spans.push({ start: addr, end: addr, count: 1, doc: bounds[i].doc });
+  }
+  return spans;
+}
@@ -2,10 +2,11 @@
  * RePair/Sequitur-style pair grammar induction for FGT
  */
 
-import type { Rule, Grammar } from './mdl.js';
+import type { Rule, Grammar, CostModel, CostContext } from './mdl.js';
 import type { Path } from './path.js';
-import { defineSymbol, expandStream } from './grammar.js';
-import { mdlGain, mdlImproves } from './mdl.js';
+import { defineSymbol, createRule, expandStream } from './grammar.js';
+import { mdlGain, mdlImproves, byteCostModel, costContext, DEFAULT_COST_CONTEXT } from './mdl.js';
+import { nextAvailablePath } from './path.js';
 
 export interface Pair {
   left: string;
@@ -80,19 +81,21 @@ export function replacePair(stream: string[], pair: Pair, newSymbol: string): st
  * @param frequency - How many times it appears
  * @param symbolSize - Size of the new symbol
  * @param lambda - Rule cost penalty
+ * @param model - Cost model (default: bytes)
+ * @param context - Stream alphabet for the model
  * @returns MDL gain
  */
 export function calculatePairGain(
   pair: Pair,
   frequency: number,
   symbolSize: number,
-  lambda: number = 1.0
+  lambda: number = 1.0,
+  model: CostModel = byteCostModel(),
+  context: CostContext = DEFAULT_COST_CONTEXT
 ): number {
-  const originalSize = (pair.left.length + pair.right.length + 1) * frequency; // +1 for space
-  const compressedSize = symbolSize * frequency;
-  const ruleCost = 3 + symbolSize + 2; // DEF + symbol + 2 children
-  
-  return (originalSize - compressedSize) - (ruleCost * lambda);
+  // Only the new symbol's length matters to a cost model, not which path it gets
+  const rule = createRule('0'.repeat(symbolSize), [pair.left, pair.right], [pair.left, pair.right], frequency);
+  return mdlGain(rule, frequency, lambda, model, context);
 }
 
 /**
@@ -101,16 +104,20 @@ export function calculatePairGain(
  * @param pair - Pair to create symbol for
  * @param frequency - How many times it appears
  * @param lambda - Rule cost penalty
+ * @param model - Cost model (default: bytes)
+ * @param context - Stream alphabet for the model, including the new symbol
  * @returns New symbol path or null if not beneficial
  */
 export function tryDefinePair(
   grammar: Grammar,
   pair: Pair,
   frequency: number,
-  lambda: number = 1.0
+  lambda: number = 1.0,
+  model: CostModel = byteCostModel(),
+  context: CostContext = DEFAULT_COST_CONTEXT
 ): Path | null {
-  const symbolSize = 2; // Assume 2-char symbol
-  const gain = calculatePairGain(pair, frequency, symbolSize, lambda);
+  const symbolSize = nextAvailablePath(grammar.symbols).length;
+  const gain = calculatePairGain(pair, frequency, symbolSize, lambda, model, context);
   
   if (gain <= 0) return null;
   
@@ -126,29 +133,17 @@ export function tryDefinePair(
  * @param stream - Initial stream
  * @param maxIterations - Maximum iterations
  * @param lambda - Rule cost penalty
+ * @param model - Cost model (default: bytes)
  * @returns Final stream after induction
  */
 export function runRepair(
   grammar: Grammar,
   stream: string[],
   maxIterations: number = 100,
-  lambda: number = 1.0
+  lambda: number = 1.0,
+  model: CostModel = byteCostModel()
 ): string[] {
-  let currentStream = [...stream];
-  let iterations = 0;
-  
-  while (iterations < maxIterations) {
-    const pair = findMostFrequentPair(currentStream);
-    if (!pair) break;
-    
-    const newSymbol = tryDefinePair(grammar, pair, pair.frequency, lambda);
-    if (!newSymbol) break;
-    
-    currentStream = replacePair(currentStream, pair, newSymbol);
-    iterations++;
-  }
-  
-  return currentStream;
+  return inducePairs(grammar, stream, maxIterations, lambda, model, 1);
 }
 
 /**
@@ -157,32 +152,278 @@ export function runRepair(
  * @param stream - Initial stream
  * @param maxIterations - Maximum iterations
  * @param lambda - Rule cost penalty
+ * @param model - Cost model (default: bytes)
  * @returns Final stream after induction
  */
 export function runSequitur(
   grammar: Grammar,
   stream: string[],
   maxIterations: number = 100,
-  lambda: number = 1.0
+  lambda: number = 1.0,
+  model: CostModel = byteCostModel()
 ): string[] {
-  let currentStream = [...stream];
-  let iterations = 0;
+  // Sequitur only creates rules for pairs that appear at least twice
+  return inducePairs(grammar, stream, maxIterations, lambda, model, 2);
+}
+
+/**
+ * Replace the most frequent pair until it is too rare or no longer gains (tryDefinePair)
+ * Runs in time linear in the stream, plus sorting the occurrences of self-pairs like "a a"
+ */
+function inducePairs(
+  grammar: Grammar,
+  stream: string[],
+  maxIterations: number,
+  lambda: number,
+  model: CostModel,
+  minFrequency: number
+): string[] {
+  const index = new PairIndex(stream);
+  let alphabetSize = costContext(grammar, stream).alphabetSize;
   
-  while (iterations < maxIterations) {
-    const pair = findMostFrequentPair(currentStream);
-    if (!pair) break;
+  for (let iterations = 0; iterations < maxIterations; iterations++) {
+    const record = index.top();
+    if (record === NONE) break;
     
-    // Sequitur only creates rules for pairs that appear at least twice
-    if (pair.frequency < 2) break;
+    const pair = index.pair(record);
+    if (pair.frequency < minFrequency) break;
     
-    const newSymbol = tryDefinePair(grammar, pair, pair.frequency, lambda);
+    const newSymbol = tryDefinePair(grammar, pair, pair.frequency, lambda, model, { alphabetSize: alphabetSize + 1 });
     if (!newSymbol) break;
     
-    currentStream = replacePair(currentStream, pair, newSymbol);
-    iterations++;
+    // The new rule joins the alphabet; literals it used up for good leave it
+    alphabetSize += 1 - index.replace(record, newSymbol, symbol => !grammar.symbols.has(symbol));
   }
   
-  return currentStream;
+  return index.toStream();
+}
+
+const NONE = -1;
+const KEY_SHIFT = 2 ** 26; // Symbol IDs stay below this, so left * KEY_SHIFT + right is an exact pair key
+
+/**
+ * Pair index for linear-time RePair
+ * - the stream as a doubly linked sequence of symbol IDs, so a replacement unlinks one position
+ * - a record per distinct adjacent pair: its count and a linked list of the positions where it starts
+ * - records kept in frequency buckets, so the most frequent pair is found without rescanning
+ * Overlapping self-pairs (the second "a a" in "a a a") are not counted, as replacePair would skip them.
+ */
+class PairIndex {
+  private readonly names: string[] = [];
+  private readonly ids = new Map<string, number>();
+  private readonly uses: number[] = [];        // Symbol ID -> positions holding it
+  private readonly keys = new Map<number, number>();
+  
+  // Positions
+  private readonly seq: Int32Array;
+  private readonly prev: Int32Array;
+  private readonly next: Int32Array;
+  private readonly occRecord: Int32Array;      // Record of the pair starting here, or NONE
+  private readonly occPrev: Int32Array;
+  private readonly occNext: Int32Array;
+  
+  // Records, grown as pairs appear
+  private size = 0;
+  private left = new Int32Array(1024);
+  private right = new Int32Array(1024);
+  private count = new Int32Array(1024);
+  private first = new Int32Array(1024);
+  private last = new Int32Array(1024);
+  private bucketPrev = new Int32Array(1024);
+  private bucketNext = new Int32Array(1024);
+  
+  // Frequency buckets: count -> first record with that count
+  private readonly buckets: Int32Array;
+  private maxCount = 0;
+  
+  constructor(stream: string[]) {
+    const n = stream.length;
+    this.seq = new Int32Array(n);
+    this.prev = new Int32Array(n);
+    this.next = new Int32Array(n);
+    this.occRecord = new Int32Array(n).fill(NONE);
+    this.occPrev = new Int32Array(n);
+    this.occNext = new Int32Array(n);
+    this.buckets = new Int32Array(n + 1).fill(NONE);
+    
+    for (let i = 0; i < n; i++) {
+      this.seq[i] = this.id(stream[i]);
+      this.uses[this.seq[i]]++;
+      this.prev[i] = i - 1;
+      this.next[i] = i + 1 < n ? i + 1 : NONE;
+    }
+    for (let i = 0; i + 1 < n; i++) this.addOccurrence(i);
+  }
+  
+  /** Most frequent pair record, or NONE once no pair is left */
+  top(): number {
+    while (this.maxCount > 0 && this.buckets[this.maxCount] === NONE) this.maxCount--;
+    return this.maxCount > 0 ? this.buckets[this.maxCount] : NONE;
+  }
+  
+  pair(record: number): Pair {
+    return {
+      left: this.names[this.left[record]],
+      right: this.names[this.right[record]],
+      frequency: this.count[record],
+      gain: 0 // Will be calculated later
+    };
+  }
+  
+  /**
+   * Replace every occurrence of a pair with a symbol, updating neighbouring pairs
+   * @returns How many symbols the stream no longer uses and isDropped accepts
+   */
+  replace(record: number, symbol: string, isDropped: (symbol: string) => boolean): number {
+    const l = this.left[record];
+    const r = this.right[record];
+    const z = this.id(symbol);
+    
+    const positions: number[] = [];
+    for (let i = this.first[record]; i !== NONE; i = this.occNext[i]) positions.push(i);
+    // Self-pairs overlap, so replace them left to right like replacePair
+    if (l === r) positions.sort((a, b) => a - b);
+    
+    for (const i of positions) {
+      if (this.occRecord[i] !== record) continue; // Consumed by an earlier replacement in a run
+      const j = this.next[i];
+      if (this.prev[i] !== NONE) this.removeOccurrence(this.prev[i]);
+      this.removeOccurrence(i);
+      this.removeOccurrence(j);
+      
+      this.seq[i] = z;
+      this.next[i] = this.next[j];
+      if (this.next[j] !== NONE) this.prev[this.next[j]] = i;
+      this.uses[l]--;
+      this.uses[r]--;
+      this.uses[z]++;
+      
+      if (this.prev[i] !== NONE) this.addOccurrence(this.prev[i]);
+      this.addOccurrence(i);
+      // A self-pair run after j was counted from j; with j gone it starts afresh
+      if (this.next[i] !== NONE) this.settleRun(this.next[i]);
+    }
+    
+    let dropped = 0;
+    for (const id of l === r ? [l] : [l, r]) {
+      if (this.uses[id] === 0 && isDropped(this.names[id])) dropped++;
+    }
+    return dropped;
+  }
+  
+  toStream(): string[] {
+    const out: string[] = [];
+    // Replacements only unlink right-hand positions, so position 0 always starts the stream
+    for (let i = this.seq.length > 0 ? 0 : NONE; i !== NONE; i = this.next[i]) out.push(this.names[this.seq[i]]);
+    return out;
+  }
+  
+  private id(symbol: string): number {
+    let id = this.ids.get(symbol);
+    if (id === undefined) {
+      id = this.names.length;
+      if (id >= KEY_SHIFT) throw new Error(`RePair supports at most ${KEY_SHIFT} distinct symbols`);
+      this.ids.set(symbol, id);
+      this.names.push(symbol);
+      this.uses.push(0);
+    }
+    return id;
+  }
+  
+  private addOccurrence(i: number): void {
+    const j = this.next[i];
+    if (j === NONE || this.occRecord[i] !== NONE) return;
+    if (this.seq[i] === this.seq[j]) this.settleRun(i);
+    else this.link(i, this.record(this.seq[i], this.seq[j]));
+  }
+  
+  private removeOccurrence(i: number): void {
+    if (i !== NONE && this.occRecord[i] !== NONE) this.unlink(i);
+  }
+  
+  /**
+   * Count a self-pair run like replacePair would replace it: at its 1st, 3rd, 5th... position
+   * Each position only depends on the one before it, so stop at the first that needs no change
+   */
+  private settleRun(i: number): void {
+    for (let k = i; k !== NONE && this.next[k] !== NONE && this.seq[k] === this.seq[this.next[k]]; k = this.next[k]) {
+      const record = this.record(this.seq[k], this.seq[k]);
+      const counted = this.occRecord[k] === record;
+      const wanted = this.prev[k] === NONE || this.occRecord[this.prev[k]] !== record;
+      if (counted === wanted) break;
+      if (wanted) this.link(k, record);
+      else this.unlink(k);
+    }
+  }
+  
+  private link(i: number, record: number): void {
+    this.occRecord[i] = record;
+    this.occPrev[i] = this.last[record];
+    this.occNext[i] = NONE;
+    if (this.last[record] === NONE) this.first[record] = i;
+    else this.occNext[this.last[record]] = i;
+    this.last[record] = i;
+    this.setCount(record, this.count[record] + 1);
+  }
+  
+  private unlink(i: number): void {
+    const record = this.occRecord[i];
+    if (this.occPrev[i] === NONE) this.first[record] = this.occNext[i];
+    else this.occNext[this.occPrev[i]] = this.occNext[i];
+    if (this.occNext[i] === NONE) this.last[record] = this.occPrev[i];
+    else this.occPrev[this.occNext[i]] = this.occPrev[i];
+    this.occRecord[i] = NONE;
+    this.setCount(record, this.count[record] - 1);
+  }
+  
+  /** Record of a pair, created on first sight */
+  private record(l: number, r: number): number {
+    const key = l * KEY_SHIFT + r;
+    let record = this.keys.get(key);
+    if (record === undefined) {
+      record = this.createRecord(l, r);
+      this.keys.set(key, record);
+    }
+    return record;
+  }
+  
+  /** Move a record to the bucket of its new count */
+  private setCount(record: number, count: number): void {
+    const old = this.count[record];
+    if (old > 0) {
+      if (this.bucketPrev[record] === NONE) this.buckets[old] = this.bucketNext[record];
+      else this.bucketNext[this.bucketPrev[record]] = this.bucketNext[record];
+      if (this.bucketNext[record] !== NONE) this.bucketPrev[this.bucketNext[record]] = this.bucketPrev[record];
+    }
+    this.count[record] = count;
+    if (count > 0) {
+      this.bucketPrev[record] = NONE;
+      this.bucketNext[record] = this.buckets[count];
+      if (this.buckets[count] !== NONE) this.bucketPrev[this.buckets[count]] = record;
+      this.buckets[count] = record;
+      this.maxCount = Math.max(this.maxCount, count);
+    }
+  }
+  
+  private createRecord(l: number, r: number): number {
+    if (this.size === this.left.length) {
+      const grow = (a: Int32Array) => { const b = new Int32Array(a.length * 2); b.set(a); return b; };
+      this.left = grow(this.left);
+      this.right = grow(this.right);
+      this.count = grow(this.count);
+      this.first = grow(this.first);
+      this.last = grow(this.last);
+      this.bucketPrev = grow(this.bucketPrev);
+      this.bucketNext = grow(this.bucketNext);
+    }
+    const record = this.size++;
+    this.left[record] = l;
+    this.right[record] = r;
+    this.count[record] = 0;
+    this.first[record] = NONE;
+    this.last[record] = NONE;
+    return record;
+  }
 }
 
 /**
@@ -191,24 +432,26 @@ export function runSequitur(
  * @param stream - Initial stream
  * @param maxIterations - Maximum iterations
  * @param lambda - Rule cost penalty
+ * @param model - Cost model (default: bytes)
  * @returns Final stream after induction
  */
 export function runHybridInduction(
   grammar: Grammar,
   stream: string[],
   maxIterations: number = 100,
-  lambda: number = 1.0
+  lambda: number = 1.0,
+  model: CostModel = byteCostModel()
 ): string[] {
   let currentStream = [...stream];
   let iterations = 0;
   
   // Phase 1: RePair (aggressive)
   const repairIterations = Math.floor(maxIterations * 0.7);
-  currentStream = runRepair(grammar, currentStream, repairIterations, lambda);
+  currentStream = runRepair(grammar, currentStream, repairIterations, lambda, model);
   
   // Phase 2: Sequitur (conservative)
   const sequiturIterations = maxIterations - repairIterations;
-  currentStream = runSequitur(grammar, currentStream, sequiturIterations, lambda);
+  currentStream = runSequitur(grammar, currentStream, sequiturIterations, lambda, model);
   
   return currentStream;
 }
@@ -0,0 +1,107 @@
+import type { DocID } from './types.js';
+import type { TapeStore } from './store.js';
+import type { AddressSpan } from './utils.js';
+import { decode } from './trie.js';
+import { storeGlyphs } from './query.js';
+import { DEFAULT_TOKENIZER, getTokenizer } from './tokenize.js';
+
+/** Addresses of context either side of a hit when none is configured */
+export const DEFAULT_SNIPPET_CONTEXT = 20;
+
+/** Text placed around each highlighted match, and how the text between markers is escaped */
+export interface HighlightMarkers {
+  open: string;
+  close: string;
+  escape?: (text: string) => string;
+}
+
+export type HighlightStyle = 'ansi' | 'html' | 'none';
+
+export const HIGHLIGHT_STYLES: Record<HighlightStyle, HighlightMarkers> = {
+  ansi: { open: '\x1b[1;33m', close: '\x1b[0m', escape: escapeControls },
+  html: { open: '<mark>', close: '</mark>', escape: escapeHtml },
+  none: { open: '', close: '' }
+};
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' };
+
+/** Replace C0/C1 control characters other than tab and newline with U+FFFD, so document text cannot drive a terminal */
+function escapeControls(text: string): string {
+  return text.replace(/[\x00-\x08\x0b-\x1f\x7f-\x9f]/g, '\ufffd');
+}
+
+/** Escape text for HTML element content and attribute values */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, ch => HTML_ESCAPES[ch]);
+}
+
+/** A stretch of one document to show, with the matches inside it */
+export interface SnippetWindow extends AddressSpan {
+  doc: DocID;
+  hits: AddressSpan[];
+}
+
+/**
+ * Turn hits into snippet windows: `context` addresses either side of each hit, clipped to the hit's
+ * document and merged with any window of the same document they overlap or touch
+ * @param store - Open tape store
+ * @param hits - Matched spans with their doc set (any order)
+ * @param context - Addresses of context on each side
+ * @returns Windows in address order; `count` is the number of hits inside
+ */
+export function snippetWindows(store: TapeStore, hits: AddressSpan[], context = DEFAULT_SNIPPET_CONTEXT): SnippetWindow[] {
+  const bounds = new Map(store.docs().map(d => [d.doc, d]));
+  const windows: SnippetWindow[] = [];
+  for (const hit of hits.slice().sort((a, b) => a.start - b.start || a.end - b.end)) {
+    const b = bounds.get(hit.doc!);
+    if (!b) continue;
+    const start = Math.max(b.start, hit.start - context), end = Math.min(b.end - 1, hit.end + context);
+    const last = windows[windows.length - 1];
+    if (last && last.doc === b.doc && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+      last.hits.push(hit);
+      last.count++;
+    } else {
+      windows.push({ start, end, count: 1, doc: b.doc, hits: [hit] });
+    }
+  }
+  return windows;
+}
+
+/** How to render snippet text */
+export interface RenderOptions {
+  markers?: HighlightMarkers;
+  /** Tokenizer the tape was ingested with (default: the one recorded on the tape) */
+  tokenizer?: string;
+}
+
+/**
+ * Decode a window of the tape to readable text, expanding glyphs through glyph_dict and wrapping every
+ * hit in the highlight markers (the text itself is escaped for the markers, e.g. `&lt;` for html)
+ * @param store - Open tape store
+ * @param window - Window to render (see snippetWindows)
+ * @param options - Highlight markers and tokenizer
+ * @returns Decoded text
+ */
+export function renderSnippet(store: TapeStore, window: SnippetWindow, options: RenderOptions = {}): string {
+  const { open, close, escape = (text: string) => text } = options.markers ?? HIGHLIGHT_STYLES.none;
+  const tokenizer = getTokenizer(options.tokenizer ?? store.getMeta('tokenizer') ?? DEFAULT_TOKENIZER);
+  const glyphs = storeGlyphs(store);
+  const marked = (addr: number) => window.hits.some(h => h.start <= addr && addr <= h.end);
+
+  let out = '';
+  let prev: string | null = null;
+  let inside = false;
+  store.tokensInRange(window.start, window.end + 1).forEach((token, i) => {
+    const hit = marked(window.start + i);
+    if (inside && !hit) { out += close; inside = false; }
+    for (const word of decode([token], glyphs)) {
+      if (prev !== null) out += escape(tokenizer.separator(prev, word));
+      // Open after the separator so a highlight starts at the word, not the space before it
+      if (hit && !inside) { out += open; inside = true; }
+      out += escape(tokenizer.surface(word));
+      prev = word;
+    }
+  });
+  return inside ? out + close : out;
+}
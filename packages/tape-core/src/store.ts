@@ -1,5 +1,8 @@
 import Database from 'better-sqlite3';
 import type { Address, DocID, Token } from './types.js';
+import type { GlyphEntry } from './trainer.js';
+/** A document on the tape with its provenance (source/hash/words are null for docs ingested before they were recorded) */
+export interface DocRecord{ doc:DocID; start:Address; end:Address; source:string|null; hash:string|null; words:number|null; }
 export interface TapeStore{
   putToken(addr:Address,token:Token):void; addPosting(token:Token,addr:Address):void;
   addDocBounds(doc:DocID,start:Address,end:Address):void;
@@ -7,6 +10,22 @@ export interface TapeStore{
   addressToDoc(addr:Address):DocID; addressesToDocs(addrs:Address[]):DocID[];
   tokenAt(addr:Address):Token|null; tokensInRange(start:Address,end:Address):Token[];
   count():number; close():void; db:Database.Database;
+  getMeta(key:string):string|null; setMeta(key:string,value:string):void;
+  
+  // Incremental ingest
+  nextAddress():Address; nextDoc():DocID;
+  setDocSource(doc:DocID,source:string|null,hash:string,words:number):void;
+  findDocBySource(source:string):DocRecord|null; findDocByHash(hash:string):DocRecord|null;
+  docs():DocRecord[]; removeDoc(doc:DocID):boolean;
+  
+  // Bumped whenever tokens change, so exports and indexes built earlier can tell they are stale
+  generation():number; bumpGeneration():number;
+  
+  // Token ID dictionary shared by postings and bitmap_index: every posted token gets the next ID (from 1), never reused
+  tokenId(token:Token):number|null; tokenById(id:number):Token|null;
+  
+  // glyph_dict as glyph entries, read once per generation (and again after batchGlyphs)
+  glyphs():GlyphEntry[];
   
   // Batched operations
   batchTokens(entries: Array<[Address, Token]>):void;
@@ -16,31 +35,71 @@ export interface TapeStore{
 export function openStore(path='tape.db'):TapeStore{
   const db=new Database(path); db.pragma('journal_mode = WAL');
   db.exec(`CREATE TABLE IF NOT EXISTS tokens(addr INTEGER PRIMARY KEY, token TEXT);
-           CREATE TABLE IF NOT EXISTS postings(token TEXT, addr INTEGER);
-           CREATE INDEX IF NOT EXISTS idx_postings ON postings(token, addr);
+           CREATE TABLE IF NOT EXISTS postings(token_id INTEGER, addr INTEGER);
+           CREATE INDEX IF NOT EXISTS idx_postings ON postings(token_id, addr);
            CREATE TABLE IF NOT EXISTS doc_bounds(doc INTEGER PRIMARY KEY, start INTEGER, end INTEGER);
-           CREATE TABLE IF NOT EXISTS glyph_dict(glyph TEXT PRIMARY KEY, phrase TEXT);`);
+           CREATE TABLE IF NOT EXISTS glyph_dict(glyph TEXT PRIMARY KEY, phrase TEXT);
+           CREATE TABLE IF NOT EXISTS tape_meta(key TEXT PRIMARY KEY, value TEXT);
+           CREATE TABLE IF NOT EXISTS doc_sources(doc INTEGER PRIMARY KEY, source TEXT, hash TEXT, words INTEGER);
+           CREATE INDEX IF NOT EXISTS idx_doc_sources_source ON doc_sources(source);
+           CREATE INDEX IF NOT EXISTS idx_doc_sources_hash ON doc_sources(hash);
+           CREATE TABLE IF NOT EXISTS bitmap_index(token_id INTEGER PRIMARY KEY, docs BLOB);
+           CREATE TABLE IF NOT EXISTS token_ids(id INTEGER PRIMARY KEY AUTOINCREMENT, token TEXT NOT NULL UNIQUE);`);
+  // Tapes written before postings were keyed by token ID get IDs assigned in token order
+  const keyedByText=(table:string)=>db.prepare(`SELECT 1 FROM pragma_table_info('${table}') WHERE name='token'`).get()!==undefined;
+  if(keyedByText('postings')) db.transaction(()=>db.exec(`
+    INSERT OR IGNORE INTO token_ids(token) SELECT DISTINCT token FROM postings ORDER BY token;
+    ALTER TABLE postings RENAME TO postings_text; DROP INDEX idx_postings;
+    CREATE TABLE postings(token_id INTEGER, addr INTEGER);
+    INSERT INTO postings(token_id,addr) SELECT i.id, p.addr FROM postings_text p JOIN token_ids i ON i.token = p.token;
+    DROP TABLE postings_text; CREATE INDEX idx_postings ON postings(token_id, addr);`))();
+  if(keyedByText('bitmap_index')) db.transaction(()=>db.exec(`
+    ALTER TABLE bitmap_index RENAME TO bitmap_index_text;
+    CREATE TABLE bitmap_index(token_id INTEGER PRIMARY KEY, docs BLOB);
+    INSERT INTO bitmap_index(token_id,docs) SELECT i.id, b.docs FROM bitmap_index_text b JOIN token_ids i ON i.token = b.token;
+    DROP TABLE bitmap_index_text;`))();
   
   // Prepared statements for single operations
   const put=db.prepare('INSERT OR REPLACE INTO tokens(addr,token) VALUES(?,?)');
-  const addP=db.prepare('INSERT INTO postings(token,addr) VALUES(?,?)');
+  const addP=db.prepare('INSERT INTO postings(token_id,addr) VALUES((SELECT id FROM token_ids WHERE token = ?),?)');
   const addD=db.prepare('INSERT OR REPLACE INTO doc_bounds(doc,start,end) VALUES(?,?,?)');
   
   // Prepared statements for batched operations
   const batchTokens=db.prepare('INSERT OR REPLACE INTO tokens(addr,token) VALUES(?,?)');
-  const batchPostings=db.prepare('INSERT INTO postings(token,addr) VALUES(?,?)');
+  const batchPostings=db.prepare('INSERT INTO postings(token_id,addr) VALUES((SELECT id FROM token_ids WHERE token = ?),?)');
   const batchGlyphs=db.prepare('INSERT OR REPLACE INTO glyph_dict(glyph, phrase) VALUES(?, ?)');
+  const intern=db.prepare('INSERT OR IGNORE INTO token_ids(token) VALUES(?)');
   
   // Query statements
-  const qP=db.prepare('SELECT addr FROM postings WHERE token=? ORDER BY addr ASC LIMIT ?');
+  const qP=db.prepare('SELECT addr FROM postings WHERE token_id=(SELECT id FROM token_ids WHERE token = ?) ORDER BY addr ASC LIMIT ?');
   const qB=db.prepare('SELECT doc FROM doc_bounds WHERE start <= ? AND end > ? LIMIT 1');
   const qT=db.prepare('SELECT token FROM tokens WHERE addr = ?');
   const qR=db.prepare('SELECT token FROM tokens WHERE addr >= ? AND addr < ? ORDER BY addr ASC');
   const qC=db.prepare('SELECT COUNT(*) as c FROM tokens');
+  const qM=db.prepare('SELECT value FROM tape_meta WHERE key = ?');
+  const putM=db.prepare('INSERT OR REPLACE INTO tape_meta(key,value) VALUES(?,?)');
+  const qId=db.prepare('SELECT id FROM token_ids WHERE token = ?');
+  const qById=db.prepare('SELECT token FROM token_ids WHERE id = ?');
+  const qG=db.prepare('SELECT glyph, phrase FROM glyph_dict');
+  let glyphCache:{generation:number; glyphs:GlyphEntry[]}|null=null;
+  
+  // Incremental ingest statements
+  const DOC_COLS='SELECT b.doc,b.start,b.end,s.source,s.hash,s.words FROM doc_bounds b LEFT JOIN doc_sources s ON s.doc=b.doc';
+  const qNextA=db.prepare('SELECT MAX(COALESCE((SELECT MAX(addr)+1 FROM tokens),0),COALESCE((SELECT MAX(end) FROM doc_bounds),0)) as n');
+  const qNextD=db.prepare('SELECT COALESCE(MAX(doc)+1,0) as n FROM doc_bounds');
+  const putS=db.prepare('INSERT OR REPLACE INTO doc_sources(doc,source,hash,words) VALUES(?,?,?,?)');
+  const qBySource=db.prepare(`${DOC_COLS} WHERE s.source = ? ORDER BY b.doc DESC LIMIT 1`);
+  const qByHash=db.prepare(`${DOC_COLS} WHERE s.hash = ? ORDER BY b.doc DESC LIMIT 1`);
+  const qDocs=db.prepare(`${DOC_COLS} ORDER BY b.doc ASC`);
+  const qDoc=db.prepare('SELECT start,end FROM doc_bounds WHERE doc = ?');
+  const delT=db.prepare('DELETE FROM tokens WHERE addr >= ? AND addr < ?');
+  const delP=db.prepare('DELETE FROM postings WHERE addr >= ? AND addr < ?');
+  const delD=db.prepare('DELETE FROM doc_bounds WHERE doc = ?');
+  const delS=db.prepare('DELETE FROM doc_sources WHERE doc = ?');
   
-  return { db,
+  const store: TapeStore = { db,
     putToken(a,t){put.run(a,t);}, 
-    addPosting(t,a){addP.run(t,a);}, 
+    addPosting(t,a){intern.run(t); addP.run(t,a);}, 
     addDocBounds(d,s,e){addD.run(d,s,e);},
     postings(t,l=1_000_000){return qP.all(t,l).map((r: any)=>r.addr as number);},
     addressToDoc(a){const r=qB.get(a,a) as {doc:number}|undefined; if(!r) throw new Error('oob'); return r.doc;},
@@ -48,6 +107,23 @@ export function openStore(path='tape.db'):TapeStore{
     tokenAt(a){const r=qT.get(a) as {token:string}|undefined; return r?.token ?? null;},
     tokensInRange(s,e){return qR.all(s,e).map((r: any)=>r.token as string);},
     count(){const r=qC.get() as {c:number}; return r.c;},
+    getMeta(k){const r=qM.get(k) as {value:string}|undefined; return r?.value ?? null;},
+    setMeta(k,v){putM.run(k,v);},
+    nextAddress(){return (qNextA.get() as {n:number}).n;},
+    nextDoc(){return (qNextD.get() as {n:number}).n;},
+    setDocSource(d,src,h,w){putS.run(d,src,h,w);},
+    findDocBySource(src){return (qBySource.get(src) as DocRecord|undefined) ?? null;},
+    findDocByHash(h){return (qByHash.get(h) as DocRecord|undefined) ?? null;},
+    docs(){return qDocs.all() as DocRecord[];},
+    removeDoc(d){const b=qDoc.get(d) as {start:number,end:number}|undefined; if(!b) return false;
+      db.transaction(()=>{delT.run(b.start,b.end); delP.run(b.start,b.end); delD.run(d); delS.run(d); store.bumpGeneration();})(); return true;},
+    generation(){const r=qM.get('generation') as {value:string}|undefined; return r ? Number(r.value) : 0;},
+    bumpGeneration(){const g=store.generation()+1; putM.run('generation',String(g)); return g;},
+    tokenId(t){const r=qId.get(t) as {id:number}|undefined; return r?.id ?? null;},
+    tokenById(id){const r=qById.get(id) as {token:string}|undefined; return r?.token ?? null;},
+    glyphs(){const g=store.generation();
+      if(glyphCache?.generation!==g) glyphCache={generation:g, glyphs:(qG.all() as {glyph:string,phrase:string}[]).map(r=>({glyph:r.glyph, phrase:r.phrase.split(' ')}))};
+      return glyphCache.glyphs;},
     close(){db.close();},
     
     // Batched operations
@@ -62,6 +138,7 @@ export function openStore(path='tape.db'):TapeStore{
     batchPostings: (entries: Array<[Token, Address]>) => {
       const transaction = db.transaction(() => {
         for(const [token, addr] of entries) {
+          intern.run(token);
           batchPostings.run(token, addr);
         }
       });
@@ -74,6 +151,8 @@ export function openStore(path='tape.db'):TapeStore{
         }
       });
       transaction();
+      glyphCache = null;
     }
   };
+  return store;
 }
\ No newline at end of file
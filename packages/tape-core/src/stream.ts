@@ -0,0 +1,292 @@
+/**
+ * Streaming encode/decode/pack/unpack for inputs larger than memory
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { once } from 'node:events';
+import { Readable, Transform, type Writable } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+import { build, decode, encodeWindow } from './trie.js';
+import { getTokenizer, tokenizeChunk, losslessChunk, restoreText, detokenize, type ChunkCarry, type RestoreState } from './tokenize.js';
+import { createFtzWriter, openFTZ, type AddressRange, type FtzDocument, type FtzReader, type FtzSource, type PackOptions } from './ftz.js';
+import type { GlyphDictionary } from './glyphDictionary.js';
+
+export interface StreamOptions {
+  lossless?: boolean;    // Lossless tokens (see encodeLossless/decodeLossless)
+}
+
+export interface UnpackOptions extends StreamOptions {
+  range?: AddressRange;  // Only these token addresses; other blocks are never read
+}
+
+/** A file to put in an archive */
+export interface ArchiveInput {
+  path: string;          // Path inside the archive (relative, '/'-separated)
+  file: string;          // Path on disk
+}
+
+/** Incremental text → token encoder */
+export interface TapeEncoder {
+  push(text: string): string[];
+  end(): string[];
+}
+
+/** Incremental token → text decoder */
+export interface TapeDecoder {
+  push(tokens: string[]): string;
+}
+
+/**
+ * Create an incremental encoder; it holds back the last partial word plus
+ * at most trie-depth words, so memory does not grow with the input
+ * @param dict - Glyph dictionary (its tokenizer is used)
+ * @param options - Lossless mode
+ */
+export function createTapeEncoder(dict: GlyphDictionary, options: StreamOptions = {}): TapeEncoder {
+  const tokenizer = getTokenizer(dict.tokenizer);
+  const trie = build(dict.glyphs, dict.prefix ? { prefix: dict.prefix, levels: dict.levels ?? 2 } : undefined);
+  const carry: ChunkCarry = { prev: null, rest: '' };
+  let pending: string[] = [];
+  
+  const step = (text: string, final: boolean) => {
+    const fresh = options.lossless ? losslessChunk(text, tokenizer, carry, final) : tokenizeChunk(text, tokenizer, carry, final);
+    pending = pending.length ? pending.concat(fresh) : fresh;
+    const { tokens, consumed } = encodeWindow(pending, trie, final);
+    pending = pending.slice(consumed);
+    return tokens;
+  };
+  return { push: text => step(text, false), end: () => step('', true) };
+}
+
+/**
+ * Create an incremental decoder
+ * @param dict - Glyph dictionary (its tokenizer is used)
+ * @param options - Lossless mode
+ */
+export function createTapeDecoder(dict: GlyphDictionary, options: StreamOptions = {}): TapeDecoder {
+  const tokenizer = getTokenizer(dict.tokenizer);
+  const state: RestoreState = { prev: null, mask: null };
+  
+  return {
+    push(tokens) {
+      const words = decode(tokens, dict.glyphs);
+      if (options.lossless) return restoreText(words, tokenizer, state);
+      if (words.length === 0) return '';
+      const joint = state.prev === null ? '' : tokenizer.separator(state.prev, words[0]);
+      state.prev = words[words.length - 1];
+      return joint + detokenize(words, tokenizer);
+    }
+  };
+}
+
+/**
+ * Transform stream: text in, space-separated tape tokens out
+ * @param dict - Glyph dictionary
+ * @param options - Lossless mode
+ */
+export function createEncodeStream(dict: GlyphDictionary, options: StreamOptions = {}): Transform {
+  const encoder = createTapeEncoder(dict, options);
+  const utf8 = new StringDecoder('utf8');
+  let started = false;
+  const join = (tokens: string[]) => {
+    if (tokens.length === 0) return '';
+    const out = (started ? ' ' : '') + tokens.join(' ');
+    started = true;
+    return out;
+  };
+  
+  return new Transform({
+    decodeStrings: false,
+    transform(chunk: Buffer | string, _enc, done) {
+      pushText(this, join(encoder.push(typeof chunk === 'string' ? chunk : utf8.write(chunk))));
+      done();
+    },
+    flush(done) {
+      pushText(this, join([...encoder.push(utf8.end()), ...encoder.end()]));
+      done();
+    }
+  });
+}
+
+/**
+ * Transform stream: space-separated tape tokens in, text out
+ * @param dict - Glyph dictionary
+ * @param options - Lossless mode
+ */
+export function createDecodeStream(dict: GlyphDictionary, options: StreamOptions = {}): Transform {
+  const decoder = createTapeDecoder(dict, options);
+  const utf8 = new StringDecoder('utf8');
+  const carry: ChunkCarry = { prev: null, rest: '' };
+  const split = (text: string, final: boolean) => {
+    const all = carry.rest + text;
+    const cut = final ? all.length : all.search(/\s\S*$/) + 1;
+    carry.rest = all.slice(cut);
+    return all.slice(0, cut).split(/\s+/).filter(Boolean);
+  };
+  
+  return new Transform({
+    decodeStrings: false,
+    transform(chunk: Buffer | string, _enc, done) {
+      pushText(this, decoder.push(split(typeof chunk === 'string' ? chunk : utf8.write(chunk), false)));
+      done();
+    },
+    flush(done) {
+      pushText(this, decoder.push(split(utf8.end(), true)));
+      done();
+    }
+  });
+}
+
+/**
+ * Transform stream: text in, FTZ2 container bytes out
+ * @param dict - Glyph dictionary
+ * @param options - Lossless mode and entropy coding (entropy coding buffers token IDs)
+ */
+export function createPackStream(dict: GlyphDictionary, options: PackOptions = {}): Transform {
+  const encoder = createTapeEncoder(dict, options);
+  const utf8 = new StringDecoder('utf8');
+  let writer: ReturnType<typeof createFtzWriter> | null = null;
+  
+  return new Transform({
+    decodeStrings: false,
+    transform(chunk: Buffer | string, _enc, done) {
+      writer ??= createFtzWriter(dict, options, bytes => this.push(bytes));
+      writer.write(encoder.push(typeof chunk === 'string' ? chunk : utf8.write(chunk)));
+      done();
+    },
+    flush(done) {
+      writer ??= createFtzWriter(dict, options, bytes => this.push(bytes));
+      writer.write([...encoder.push(utf8.end()), ...encoder.end()]);
+      writer.end();
+      done();
+    }
+  });
+}
+
+/**
+ * Readable stream of decoded text from an .ftz container
+ * Checksums are verified before any text is produced
+ * @param source - Container (see fileSource/bytesSource)
+ * @param options - Address range, and lossless mode for FTZ1 files, which do not record it
+ */
+export function createUnpackStream(source: FtzSource, options: UnpackOptions = {}): Readable {
+  return Readable.from(unpackText(openFTZ(source), options));
+}
+
+/**
+ * Decode the text for a token address range, reading only the blocks it overlaps
+ * @param source - Container (see fileSource/bytesSource)
+ * @param range - Half-open address range
+ * @param options - Lossless mode for FTZ1 files
+ * @returns Decoded text
+ */
+export function decodeFTZRange(source: FtzSource, range: AddressRange, options: StreamOptions = {}): string {
+  let out = '';
+  for (const text of unpackText(openFTZ(source), { ...options, range })) out += text;
+  return out;
+}
+
+function* unpackText(reader: FtzReader, options: UnpackOptions): Generator<string> {
+  const decoder = createTapeDecoder(reader.dict, { lossless: reader.lossless ?? options.lossless });
+  for (const tokens of reader.chunks(options.range)) {
+    const text = decoder.push(tokens);
+    if (text) yield text;
+  }
+}
+
+/**
+ * Pack many files into one multi-document archive sharing a dictionary
+ * Each file is encoded on its own, so its tokens occupy [start, end) like doc_bounds after ingest
+ * @param inputs - Files and their paths inside the archive
+ * @param dict - Glyph dictionary
+ * @param options - Lossless mode (needed for byte-identical extraction), entropy coding, block size
+ * @param out - Destination for the container bytes
+ * @returns The document table that was written
+ */
+export async function packArchive(inputs: ArchiveInput[], dict: GlyphDictionary, options: PackOptions, out: Writable): Promise<FtzDocument[]> {
+  const documents: FtzDocument[] = [];
+  const writer = createFtzWriter(dict, options, bytes => out.write(bytes));
+  const drain = async () => { if (out.writableNeedDrain) await once(out, 'drain'); };
+  
+  for (const input of inputs) {
+    archivePath(input.path);
+    const stat = fs.statSync(input.file);
+    const encoder = createTapeEncoder(dict, options);
+    const start = writer.count();
+    for await (const chunk of fs.createReadStream(input.file, { encoding: 'utf8' })) {
+      writer.write(encoder.push(chunk as string));
+      await drain();
+    }
+    writer.write(encoder.end());
+    const doc = { path: input.path, size: stat.size, mtime: stat.mtimeMs, start, end: writer.count() };
+    writer.document(doc);
+    documents.push(doc);
+  }
+  writer.end();
+  await drain();
+  return documents;
+}
+
+/**
+ * Recreate an archive's files under a directory, restoring modification times
+ * @param source - Archive (see fileSource/bytesSource)
+ * @param dir - Destination directory
+ * @param options - Lossless mode for archives that do not record it
+ * @returns The documents written
+ * @throws Error when the container has no document table or a path escapes dir
+ */
+export async function extractArchive(source: FtzSource, dir: string, options: StreamOptions = {}): Promise<FtzDocument[]> {
+  const reader = openFTZ(source);
+  if (reader.documents.length === 0) throw new Error('Not a multi-document archive (no DOCS section)');
+  const targets = reader.documents.map(doc => path.join(dir, ...archivePath(doc.path)));
+  
+  for (const [i, doc] of reader.documents.entries()) {
+    fs.mkdirSync(path.dirname(targets[i]), { recursive: true });
+    const out = fs.createWriteStream(targets[i]);
+    const decoder = createTapeDecoder(reader.dict, { lossless: reader.lossless ?? options.lossless });
+    for (const tokens of reader.chunks(doc)) {
+      if (!out.write(decoder.push(tokens))) await once(out, 'drain');
+    }
+    out.end();
+    await once(out, 'finish');
+    fs.utimesSync(targets[i], new Date(doc.mtime), new Date(doc.mtime));
+  }
+  return reader.documents;
+}
+
+/**
+ * Split an archive path into safe segments
+ * @throws Error for absolute paths, empty segments or '..'
+ */
+function archivePath(p: string): string[] {
+  const parts = p.split('/');
+  if (p.startsWith('/') || parts.some(s => s === '' || s === '.' || s === '..' || s.includes('\\'))) {
+    throw new Error(`Unsafe archive path: ${p}`);
+  }
+  return parts;
+}
+
+/**
+ * Random-access source over an open file descriptor
+ * @param fd - File descriptor of a regular file
+ */
+export function fileSource(fd: number): FtzSource {
+  return {
+    size: fs.fstatSync(fd).size,
+    read(offset, length) {
+      const buf = Buffer.alloc(length);
+      let got = 0;
+      while (got < length) {
+        const n = fs.readSync(fd, buf, got, length - got, offset + got);
+        if (n === 0) break;
+        got += n;
+      }
+      return buf.subarray(0, got);
+    }
+  };
+}
+
+function pushText(stream: Transform, text: string): void {
+  if (text) stream.push(text);
+}
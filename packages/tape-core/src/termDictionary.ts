@@ -0,0 +1,111 @@
+import type { Token } from './types.js';
+import type { TapeStore } from './store.js';
+import { GLYPH_ESCAPE } from './trie.js';
+
+/** Most terms one prefix or fuzzy pattern expands to */
+export const MAX_EXPANSIONS = 64;
+
+/** A `stem*` prefix or `term~k` fuzzy pattern from a query */
+export interface TermPattern {
+  kind: 'prefix' | 'fuzzy';
+  stem: string;
+  edits: number;
+}
+
+interface TermNode { kids: Map<string, TermNode>; term?: Token; }
+
+/**
+ * Sorted dictionary of the distinct tokens on a tape, with a character trie for edit-distance search
+ */
+export interface TermDictionary {
+  size: number;
+  /** Terms starting with the prefix, in sorted order */
+  prefix(prefix: string, limit?: number): Token[];
+  /** Terms within `edits` insertions, deletions or substitutions, closest first */
+  fuzzy(term: string, edits: number, limit?: number): Token[];
+}
+
+/**
+ * Build a term dictionary from a list of tokens
+ * @param tokens - Distinct tokens (any order; duplicates are ignored)
+ * @returns Dictionary answering prefix and fuzzy lookups
+ */
+export function createTermDictionary(tokens: Iterable<Token>): TermDictionary {
+  const terms = Array.from(new Set(tokens)).sort();
+  const root: TermNode = { kids: new Map() };
+  for (const term of terms) {
+    let n = root;
+    for (const ch of term) {
+      if (!n.kids.has(ch)) n.kids.set(ch, { kids: new Map() });
+      n = n.kids.get(ch)!;
+    }
+    n.term = term;
+  }
+
+  return {
+    size: terms.length,
+    prefix(prefix, limit = MAX_EXPANSIONS) {
+      // Binary search for the first term >= prefix, then walk while it still matches
+      let lo = 0, hi = terms.length;
+      while (lo < hi) { const mid = (lo + hi) >> 1; if (terms[mid] < prefix) lo = mid + 1; else hi = mid; }
+      const out: Token[] = [];
+      for (let i = lo; i < terms.length && out.length < limit && terms[i].startsWith(prefix); i++) out.push(terms[i]);
+      return out;
+    },
+    fuzzy(term, edits, limit = MAX_EXPANSIONS) {
+      // Levenshtein rows down the trie; a branch is abandoned once every cell exceeds `edits`
+      const target = Array.from(term);
+      const found: { term: Token; dist: number }[] = [];
+      const walk = (node: TermNode, prev: number[]) => {
+        if (node.term !== undefined && prev[target.length] <= edits) found.push({ term: node.term, dist: prev[target.length] });
+        for (const [ch, kid] of node.kids) {
+          const row = [prev[0] + 1];
+          for (let i = 1; i <= target.length; i++) {
+            row[i] = Math.min(row[i - 1] + 1, prev[i] + 1, prev[i - 1] + (target[i - 1] === ch ? 0 : 1));
+          }
+          if (Math.min(...row) <= edits) walk(kid, row);
+        }
+      };
+      walk(root, target.map((_, i) => i).concat(target.length));
+      return found.sort((a, b) => a.dist - b.dist || (a.term < b.term ? -1 : 1)).slice(0, limit).map(f => f.term);
+    }
+  };
+}
+
+/**
+ * Load the term dictionary of a tape from its token ID table (see TapeStore.tokenId)
+ * The table holds one row per distinct token
+ * @param store - Open tape store
+ * @returns Dictionary over every distinct token
+ */
+export function loadTermDictionary(store: TapeStore): TermDictionary {
+  const rows = store.db.prepare('SELECT token FROM token_ids').all() as { token: string }[];
+  return createTermDictionary(rows.map(r => r.token));
+}
+
+/**
+ * Recognise `refund*` (prefix) and `refnd~1` (fuzzy, default 1 edit) query words
+ * Escaped literals (`\a*`) and glyphs that end in `*` or `~` are ordinary words, so they can be searched exactly
+ * @param word - One query word
+ * @param glyphs - Glyphs of the tape
+ * @returns The pattern, or null for an ordinary word
+ */
+export function parseTermPattern(word: string, glyphs?: ReadonlySet<Token>): TermPattern | null {
+  if (word.startsWith(GLYPH_ESCAPE) || glyphs?.has(word)) return null;
+  const prefix = /^(.+)\*$/.exec(word);
+  if (prefix) return { kind: 'prefix', stem: prefix[1], edits: 0 };
+  const fuzzy = /^(.+)~(\d)?$/.exec(word);
+  if (fuzzy) return { kind: 'fuzzy', stem: fuzzy[1], edits: Number(fuzzy[2] ?? 1) };
+  return null;
+}
+
+/**
+ * Expand a pattern against the dictionary
+ * @param dict - Term dictionary of the tape
+ * @param pattern - Parsed pattern (its stem already normalized like ingested words)
+ * @param limit - Maximum number of terms
+ * @returns Matching terms
+ */
+export function matchTermPattern(dict: TermDictionary, pattern: TermPattern, limit = MAX_EXPANSIONS): Token[] {
+  return pattern.kind === 'prefix' ? dict.prefix(pattern.stem, limit) : dict.fuzzy(pattern.stem, pattern.edits, limit);
+}
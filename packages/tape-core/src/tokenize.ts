@@ -2,17 +2,380 @@
  * Text tokenization utilities
  */
 
+/**
+ * A token and the slice of source text it came from
+ */
+export interface TokenSpan {
+  token: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Pluggable tokenization strategy
+ * - spans: split text into normalized tokens with their source offsets
+ * - surface: the text a token stands for (before case restoration)
+ * - separator: text implied between two adjacent tokens when joining
+ */
+export interface Tokenizer {
+  name: string;
+  spans(text: string): TokenSpan[];
+  surface(token: string): string;
+  separator(prev: string, next: string): string;
+}
+
+export type TokenizerName = 'ascii' | 'unicode' | 'whitespace' | 'ngram' | 'code';
+
+export const TOKENIZER_NAMES: TokenizerName[] = ['ascii', 'unicode', 'whitespace', 'ngram', 'code'];
+
+/** Tokenizer used when none is configured (and for dictionaries that predate tokenizers) */
+export const DEFAULT_TOKENIZER: TokenizerName = 'ascii';
+
+/** Marks the first n-gram of a word so word boundaries survive tokenization */
+export const NGRAM_WORD_START = '\u2581';
+
+/** Prefix marking a case-mask side-channel token (applies to the next word) */
+export const CASE_MARK = '\u0001';
+
+/** Prefix marking a separator side-channel token (punctuation/whitespace run) */
+export const GAP_MARK = '\u0002';
+
+/** Most text a chunked tokenizer holds back waiting for a word or separator to end */
+const MAX_HOLDBACK = 4096;
+
+const GAP_ESCAPES: Record<string, string> = { ' ': '\\s', '\n': '\\n', '\t': '\\t', '\r': '\\r', '\\': '\\\\' };
+const GAP_UNESCAPES: Record<string, string> = { s: ' ', n: '\n', t: '\t', r: '\r', '\\': '\\' };
+
 /**
  * Normalize and split text into words
  * - Convert to lowercase
  * - Keep only alphanumeric characters and apostrophes
  * - Split on whitespace
  * - Filter out empty strings
+ * When a tokenizer is given, its strategy is used instead
  */
-export function words(text: string): string[] {
+export function words(text: string, tokenizer?: Tokenizer): string[] {
+  if (tokenizer) return tokenize(text, tokenizer);
   return text
     .toLowerCase()
     .replace(/[^a-z0-9\s']/g, ' ')
     .split(/\s+/)
     .filter(Boolean);
 }
+
+/**
+ * Split text into normalized tokens with a tokenizer
+ */
+export function tokenize(text: string, tokenizer: Tokenizer): string[] {
+  return tokenizer.spans(text).map(s => s.token);
+}
+
+/**
+ * Join normalized tokens back into readable (normalized) text
+ */
+export function detokenize(tokens: string[], tokenizer: Tokenizer): string {
+  let out = '';
+  for (let i = 0; i < tokens.length; i++) {
+    if (i > 0) out += tokenizer.separator(tokens[i - 1], tokens[i]);
+    out += tokenizer.surface(tokens[i]);
+  }
+  return out;
+}
+
+/**
+ * Resolve a tokenizer by name
+ * @param spec - Tokenizer name; "ngram" accepts a size suffix, e.g. "ngram:4"
+ * @returns Tokenizer strategy
+ */
+export function getTokenizer(spec: string = DEFAULT_TOKENIZER): Tokenizer {
+  const [name, arg] = spec.split(':');
+  switch (name) {
+    case 'ascii': return asciiTokenizer();
+    case 'unicode': return unicodeTokenizer();
+    case 'whitespace': return whitespaceTokenizer();
+    case 'ngram': return ngramTokenizer(arg ? parseInt(arg, 10) : 3);
+    case 'code': return codeTokenizer();
+    default:
+      throw new Error(`Unknown tokenizer "${spec}" (expected one of: ${TOKENIZER_NAMES.join(', ')})`);
+  }
+}
+
+/**
+ * Legacy tokenizer: lowercase ASCII letters, digits and apostrophes
+ */
+export function asciiTokenizer(): Tokenizer {
+  return {
+    name: 'ascii',
+    spans: text => regexSpans(text, /[A-Za-z0-9']+/g, t => t.toLowerCase()),
+    surface: token => token,
+    separator: () => ' '
+  };
+}
+
+/**
+ * Unicode word-boundary tokenizer (Intl.Segmenter); keeps accents, Cyrillic, CJK
+ * Segments are split at whitespace and format characters (a BOM or zero-width space inside a word),
+ * which the segmenter keeps in words but tokens must not contain
+ */
+export function unicodeTokenizer(locale?: string): Tokenizer {
+  const Segmenter = (Intl as unknown as { Segmenter?: SegmenterCtor }).Segmenter;
+  if (!Segmenter) throw new Error('Unicode tokenizer requires Intl.Segmenter (Node 16+)');
+  const segmenter = new Segmenter(locale, { granularity: 'word' });
+  
+  return {
+    name: 'unicode',
+    spans(text) {
+      const out: TokenSpan[] = [];
+      for (const seg of segmenter.segment(text)) {
+        if (!seg.isWordLike) continue;
+        for (const part of regexSpans(seg.segment, /[^\s\p{Cf}]+/gu, t => t.toLowerCase())) {
+          out.push({ token: part.token, start: seg.index + part.start, end: seg.index + part.end });
+        }
+      }
+      return out;
+    },
+    surface: token => token,
+    separator: () => ' '
+  };
+}
+
+/**
+ * Whitespace-only tokenizer: tokens are kept verbatim
+ */
+export function whitespaceTokenizer(): Tokenizer {
+  return {
+    name: 'whitespace',
+    spans: text => regexSpans(text, /\S+/g, t => t),
+    surface: token => token,
+    separator: () => ' '
+  };
+}
+
+/**
+ * Character n-gram tokenizer: each whitespace word is cut into n-character
+ * chunks; the first chunk of a word carries NGRAM_WORD_START
+ */
+export function ngramTokenizer(n: number = 3): Tokenizer {
+  if (!Number.isInteger(n) || n < 1) throw new Error(`Invalid n-gram size: ${n}`);
+  
+  return {
+    name: `ngram:${n}`,
+    spans(text) {
+      const out: TokenSpan[] = [];
+      for (const word of regexSpans(text, /\S+/g, t => t)) {
+        const chars = Array.from(word.token);
+        let offset = word.start;
+        for (let i = 0; i < chars.length; i += n) {
+          const chunk = chars.slice(i, i + n).join('');
+          const token = (i === 0 ? NGRAM_WORD_START : '') + chunk.toLowerCase();
+          out.push({ token, start: offset, end: offset + chunk.length });
+          offset += chunk.length;
+        }
+      }
+      return out;
+    },
+    surface: token => token.startsWith(NGRAM_WORD_START) ? token.slice(NGRAM_WORD_START.length) : token,
+    separator: (_prev, next) => next.startsWith(NGRAM_WORD_START) ? ' ' : ''
+  };
+}
+
+/**
+ * Code-aware tokenizer: identifiers (including snake_case/camelCase and $)
+ * and numbers stay whole and case-sensitive; operator runs are single tokens
+ */
+export function codeTokenizer(): Tokenizer {
+  return {
+    name: 'code',
+    spans: text => regexSpans(text, /[\p{L}_$][\p{L}\p{N}_$]*|\p{N}[\p{L}\p{N}_.]*|[^\s\p{L}\p{N}_$]+/gu, t => t),
+    surface: token => token,
+    separator: () => ' '
+  };
+}
+
+type SegmenterCtor = new (locale?: string, options?: { granularity: 'word' }) => {
+  segment(text: string): Iterable<{ segment: string; index: number; isWordLike?: boolean }>;
+};
+
+function regexSpans(text: string, re: RegExp, normalize: (t: string) => string): TokenSpan[] {
+  const out: TokenSpan[] = [];
+  for (const m of text.matchAll(re)) {
+    out.push({ token: normalize(m[0]), start: m.index!, end: m.index! + m[0].length });
+  }
+  return out;
+}
+
+/**
+ * Split text into lossless tokens
+ * - Words are normalized exactly like the tokenizer does
+ * - A word whose source differs only in case is preceded by a case-mask token
+ * - Any separator other than the tokenizer's implied one becomes a gap token
+ * - Words that cannot be restored from their normalized form stay in the gap
+ * - Tokens never contain whitespace, so they survive a space-joined tape
+ */
+export function losslessTokens(text: string, tokenizer: Tokenizer = asciiTokenizer()): string[] {
+  return losslessChunk(text, tokenizer, { prev: null, rest: '' }, true);
+}
+
+/**
+ * Carry-over between chunks of streamed text
+ * - prev: last word emitted (null at the start of the text or after a gap)
+ * - rest: text held back because a word or separator may continue in the next chunk
+ */
+export interface ChunkCarry {
+  prev: string | null;
+  rest: string;
+}
+
+/**
+ * Tokenize the next chunk of a text stream
+ * Text after the last whitespace is held back in carry.rest, since no tokenizer splits a word there
+ * (at most MAX_HOLDBACK characters; a longer run is split)
+ * @param chunk - Next piece of text
+ * @param tokenizer - Tokenizer strategy
+ * @param carry - State shared across calls (updated in place)
+ * @param final - True for the last chunk; flushes everything held back
+ * @returns Tokens that are complete
+ */
+export function tokenizeChunk(chunk: string, tokenizer: Tokenizer, carry: ChunkCarry, final: boolean): string[] {
+  const text = carry.rest + chunk;
+  const cut = final ? text.length : safeCut(text);
+  carry.rest = text.slice(cut);
+  return tokenize(text.slice(0, cut), tokenizer);
+}
+
+/**
+ * Lossless-tokenize the next chunk of a text stream (see losslessTokens and tokenizeChunk)
+ * @param chunk - Next piece of text
+ * @param tokenizer - Tokenizer strategy
+ * @param carry - State shared across calls (updated in place)
+ * @param final - True for the last chunk; emits the trailing gap
+ * @returns Lossless tokens that are complete
+ */
+export function losslessChunk(chunk: string, tokenizer: Tokenizer, carry: ChunkCarry, final: boolean): string[] {
+  const text = carry.rest + chunk;
+  const head = final ? text : text.slice(0, safeCut(text));
+  const tokens: string[] = [];
+  let last = 0;
+  let prev = carry.prev;
+  
+  for (const span of tokenizer.spans(head)) {
+    const original = head.slice(span.start, span.end);
+    const mask = caseMask(original, tokenizer.surface(span.token));
+    if (mask === undefined || isSideToken(span.token)) continue;
+    
+    const gap = head.slice(last, span.start);
+    if (gap !== (prev === null ? '' : tokenizer.separator(prev, span.token))) {
+      tokens.push(GAP_MARK + escapeGap(gap));
+    }
+    if (mask) tokens.push(CASE_MARK + mask);
+    tokens.push(span.token);
+    last = span.end;
+    prev = span.token;
+  }
+  
+  if (final ? last < text.length : head.length - last > MAX_HOLDBACK) {
+    // A long run without words is flushed as its own gap rather than carried forward
+    const end = final ? text.length : head.length;
+    tokens.push(GAP_MARK + escapeGap(text.slice(last, end)));
+    last = end;
+    prev = null;
+  }
+  carry.rest = final ? '' : text.slice(last);
+  carry.prev = prev;
+  return tokens;
+}
+
+/**
+ * Offset just past the last whitespace character
+ * Text without whitespace in its last MAX_HOLDBACK characters is cut there anyway (never inside a
+ * surrogate pair), so a long unbroken run costs one extra token boundary instead of quadratic rescans
+ */
+function safeCut(text: string): number {
+  const floor = Math.max(0, text.length - MAX_HOLDBACK);
+  for (let i = text.length - 1; i >= floor; i--) {
+    if (/\s/.test(text[i])) return i + 1;
+  }
+  return floor > 0 && isLowSurrogate(text.charCodeAt(floor)) ? floor - 1 : floor;
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff;
+}
+
+/**
+ * Rebuild the original text from lossless tokens (inverse of losslessTokens)
+ * @param tokens - Lossless tokens with all glyphs already expanded
+ * @param tokenizer - Tokenizer the tokens were produced with
+ * @param state - Carry-over for restoring a stream in pieces (updated in place)
+ * @returns Original text, byte for byte
+ */
+export function restoreText(tokens: string[], tokenizer: Tokenizer = asciiTokenizer(), state: RestoreState = { prev: null, mask: null }): string {
+  let out = '';
+  let { prev, mask } = state;
+  
+  for (const token of tokens) {
+    if (token.startsWith(CASE_MARK)) {
+      mask = token.slice(CASE_MARK.length);
+    } else if (token.startsWith(GAP_MARK)) {
+      out += unescapeGap(token.slice(GAP_MARK.length));
+      prev = null;
+    } else {
+      if (prev !== null) out += tokenizer.separator(prev, token);
+      const surface = tokenizer.surface(token);
+      out += mask ? applyCaseMask(surface, mask) : surface;
+      mask = null;
+      prev = token;
+    }
+  }
+  
+  state.prev = prev;
+  state.mask = mask;
+  return out;
+}
+
+/** Carry-over between pieces of a token stream passed to restoreText */
+export interface RestoreState {
+  prev: string | null;
+  mask: string | null;
+}
+
+/**
+ * Check whether a token is a lossless side-channel token
+ */
+export function isSideToken(token: string): boolean {
+  return token.startsWith(CASE_MARK) || token.startsWith(GAP_MARK);
+}
+
+/**
+ * Describe how a source word differs from its normalized surface
+ * null = identical, C = Capitalized, U = UPPER, M<bits> = mixed (1 = uppercase position),
+ * undefined = not restorable by case alone
+ */
+function caseMask(word: string, lower: string): string | null | undefined {
+  if (word === lower) return null;
+  let mask: string;
+  if (word === lower.charAt(0).toUpperCase() + lower.slice(1)) mask = 'C';
+  else if (word === lower.toUpperCase()) mask = 'U';
+  else {
+    mask = 'M';
+    for (let i = 0; i < lower.length; i++) mask += word[i] === lower[i] ? '0' : '1';
+  }
+  return applyCaseMask(lower, mask) === word ? mask : undefined;
+}
+
+function applyCaseMask(word: string, mask: string): string {
+  if (mask === 'C') return word.charAt(0).toUpperCase() + word.slice(1);
+  if (mask === 'U') return word.toUpperCase();
+  let out = '';
+  for (let i = 0; i < word.length; i++) out += mask[i + 1] === '1' ? word[i].toUpperCase() : word[i];
+  return out;
+}
+
+function escapeGap(gap: string): string {
+  return gap.replace(/[\\\s]/g, c => GAP_ESCAPES[c] ?? '\\u' + c.charCodeAt(0).toString(16).padStart(4, '0'));
+}
+
+function unescapeGap(gap: string): string {
+  return gap.replace(/\\(u[0-9a-f]{4}|[\s\S])/g, (_, e: string) =>
+    e.length === 5 ? String.fromCharCode(parseInt(e.slice(1), 16)) : GAP_UNESCAPES[e] ?? e);
+}
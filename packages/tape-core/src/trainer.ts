@@ -2,7 +2,7 @@
  * Aggressive glyph training with benefit scoring
  */
 
-import { words } from './tokenize.js';
+import { words, getTokenizer } from './tokenize.js';
 import { mine } from './minePhrases.js';
 import { poolForTape } from './glyphPool.js';
 
@@ -19,6 +19,7 @@ export interface TrainOptions {
   prefix?: string;     // Glyph prefix character
   levels?: number;     // ASCII pool levels (1-3)
   seed?: string;       // Deterministic seed
+  tokenizer?: string;  // Tokenizer name (see getTokenizer)
 }
 
 /**
@@ -37,11 +38,12 @@ export function train(
     nMax = 5,
     prefix = "~",
     levels = 2,
-    seed
+    seed,
+    tokenizer
   } = options;
   
   // Tokenize text
-  const wordList = words(text);
+  const wordList = words(text, getTokenizer(tokenizer));
   
   // Mine phrases with benefit scoring
   const candidates = mine(wordList, nMin, nMax);
@@ -3,19 +3,29 @@
  */
 
 import type { GlyphEntry } from './trainer.js';
+import { losslessTokens, restoreText } from './tokenize.js';
+import type { Tokenizer } from './tokenize.js';
+import { isPoolGlyph } from './glyphPool.js';
+
+/** Prefix marking a literal source token that would otherwise read as a glyph */
+export const GLYPH_ESCAPE = '\\';
 
 export type Trie = { 
   kids: Map<string, Trie>; 
   glyph?: string; 
+  glyphs?: Set<string>;                        // Root only: glyphs of the dictionary
+  pool?: { prefix: string; levels: number };   // Root only: active ASCII glyph pool
+  depth?: number;                              // Root only: longest phrase, in words
 };
 
 /**
  * Build trie from glyph entries
  * @param entries - Array of glyph entries
+ * @param pool - Active ASCII glyph pool; literal tokens from it are escaped too
  * @returns Trie structure for encoding
  */
-export function build(entries: GlyphEntry[]): Trie {
-  const root: Trie = { kids: new Map() };
+export function build(entries: GlyphEntry[], pool?: { prefix: string; levels: number }): Trie {
+  const root: Trie = { kids: new Map(), glyphs: new Set(entries.map(e => e.glyph)), pool, depth: 0 };
   
   for (const entry of entries) {
     let node = root;
@@ -26,6 +36,7 @@ export function build(entries: GlyphEntry[]): Trie {
       node = node.kids.get(word)!;
     }
     node.glyph = entry.glyph;
+    root.depth = Math.max(root.depth!, entry.phrase.length);
   }
   
   return root;
@@ -38,10 +49,24 @@ export function build(entries: GlyphEntry[]): Trie {
  * @returns Array of encoded tokens
  */
 export function encode(words: string[], trie: Trie): string[] {
+  return encodeWindow(words, trie, true).tokens;
+}
+
+/**
+ * Encode the front of a sliding word window, for streaming input
+ * A match starting at i is only final once trie.depth words from i are known,
+ * so at most that many words are left unconsumed until the end of input
+ * @param words - Buffered words
+ * @param trie - Trie structure
+ * @param final - True at end of input: encode everything
+ * @returns Encoded tokens and the number of words they consumed
+ */
+export function encodeWindow(words: string[], trie: Trie, final: boolean): { tokens: string[]; consumed: number } {
   const tokens: string[] = [];
+  const lookahead = Math.max(1, trie.depth ?? Infinity);
   let i = 0;
   
-  while (i < words.length) {
+  while (i < words.length && (final || words.length - i >= lookahead)) {
     let node = trie;
     let j = i;
     let lastMatch: { len: number; glyph: string } | null = null;
@@ -58,17 +83,17 @@ export function encode(words: string[], trie: Trie): string[] {
       j++;
     }
     
-    // Use longest match if found, otherwise use single word
+    // Use longest match if found, otherwise use single (escaped if needed) word
     if (lastMatch) {
       tokens.push(lastMatch.glyph);
       i += lastMatch.len;
     } else {
-      tokens.push(words[i]);
+      tokens.push(escapeLiteral(words[i], trie));
       i++;
     }
   }
   
-  return tokens;
+  return { tokens, consumed: i };
 }
 
 /**
@@ -87,6 +112,10 @@ export function decode(tokens: string[], entries: GlyphEntry[]): string[] {
   const words: string[] = [];
   
   for (const token of tokens) {
+    if (token.startsWith(GLYPH_ESCAPE)) {
+      words.push(token.slice(GLYPH_ESCAPE.length)); // Escaped literal
+      continue;
+    }
     const phrase = glyphToPhrase.get(token);
     if (phrase) {
       words.push(...phrase);
@@ -98,5 +127,42 @@ export function decode(tokens: string[], entries: GlyphEntry[]): string[] {
   return words;
 }
 
+/**
+ * Escape a literal source token that collides with a glyph, the active glyph
+ * pool or the escape prefix itself, so decode() keeps it literal
+ * @param word - Literal source token
+ * @param trie - Trie built with build()
+ * @returns Token as it should appear on the tape
+ */
+export function escapeLiteral(word: string, trie: Trie): string {
+  const collides = word.startsWith(GLYPH_ESCAPE) ||
+    !!trie.glyphs?.has(word) ||
+    (!!trie.pool && isPoolGlyph(word, trie.pool.prefix, trie.pool.levels));
+  return collides ? GLYPH_ESCAPE + word : word;
+}
+
+/**
+ * Encode text losslessly: case masks, punctuation and whitespace runs
+ * travel as side-channel tokens between the (glyphed) words
+ * @param text - Raw input text
+ * @param trie - Trie structure
+ * @param tokenizer - Tokenizer the glyph dictionary was trained with
+ * @returns Array of encoded tokens
+ */
+export function encodeLossless(text: string, trie: Trie, tokenizer?: Tokenizer): string[] {
+  return encode(losslessTokens(text, tokenizer), trie);
+}
+
+/**
+ * Decode a lossless token stream back to the exact original text
+ * @param tokens - Tokens produced by encodeLossless
+ * @param entries - Original glyph entries
+ * @param tokenizer - Tokenizer used by encodeLossless
+ * @returns Original text, byte for byte
+ */
+export function decodeLossless(tokens: string[], entries: GlyphEntry[], tokenizer?: Tokenizer): string {
+  return restoreText(decode(tokens, entries), tokenizer);
+}
+
 // Re-export types for convenience
 export type { GlyphEntry } from './trainer.js';
@@ -3,4 +3,6 @@ export type DocID = number;
 export type Token = string;
 
 // GlyphEntry moved to trainer.ts to include gain field
-export interface IngestStats { docs:number; tokensPre:number; tokensPost:number; uniqueTokens:number; depthD:number; }
\ No newline at end of file
+// Totals describe the whole tape after the ingest; added/skipped/replaced describe this run
+export interface IngestStats { docs:number; tokensPre:number; tokensPost:number; uniqueTokens:number; depthD:number; added?:number; skipped?:number; replaced?:number; }
+export interface IngestDoc { text:string; source?:string; }
\ No newline at end of file
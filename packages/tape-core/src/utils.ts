@@ -1,4 +1,5 @@
 import { toBase3 } from './path.js';
+import { tokenize, type Tokenizer } from './tokenize.js';
 
 // ===== Address Math Utilities =====
 export function base3ToAddr(base3: string): number {
@@ -100,7 +101,7 @@ export function pointToAddress(point: Point2D, D: number): string {
   return base3;
 }
 
-export function normalizeWords(s:string){return s.toLowerCase().replace(/[^a-z0-9\s']/g,' ').split(/\s+/).filter(Boolean);}
+export function normalizeWords(s:string,tokenizer?:Tokenizer){return tokenizer?tokenize(s,tokenizer):s.toLowerCase().replace(/[^a-z0-9\s']/g,' ').split(/\s+/).filter(Boolean);}
 
 // ===== Query Windowing Utilities =====
 export interface AddressSpan {
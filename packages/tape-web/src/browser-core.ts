@@ -16,10 +16,100 @@ const ALPHA =
   "abcdefghijklmnopqrstuvwxyz" +
   "0123456789";
 
+/**
+ * Pluggable tokenization strategy (mirrors tape-core/src/tokenize.ts)
+ */
+export interface TokenSpan { token: string; start: number; end: number; }
+
+export interface Tokenizer {
+  name: string;
+  spans(text: string): TokenSpan[];
+  surface(token: string): string;
+  separator(prev: string, next: string): string;
+}
+
+export const TOKENIZER_NAMES = ['ascii', 'unicode', 'whitespace', 'ngram', 'code'];
+export const DEFAULT_TOKENIZER = 'ascii';
+const NGRAM_WORD_START = '\u2581';
+
+type SegmenterCtor = new (locale?: string, options?: { granularity: 'word' }) => {
+  segment(text: string): Iterable<{ segment: string; index: number; isWordLike?: boolean }>;
+};
+
+function regexSpans(text: string, re: RegExp, normalize: (t: string) => string): TokenSpan[] {
+  const out: TokenSpan[] = [];
+  for (const m of text.matchAll(re)) {
+    out.push({ token: normalize(m[0]), start: m.index!, end: m.index! + m[0].length });
+  }
+  return out;
+}
+
+// Segments are split at whitespace and format characters, as in core's unicodeTokenizer
+function unicodeSpans(text: string): TokenSpan[] {
+  const Segmenter = (Intl as unknown as { Segmenter?: SegmenterCtor }).Segmenter;
+  if (!Segmenter) throw new Error('Unicode tokenizer requires Intl.Segmenter');
+  const out: TokenSpan[] = [];
+  for (const seg of new Segmenter(undefined, { granularity: 'word' }).segment(text)) {
+    if (!seg.isWordLike) continue;
+    for (const part of regexSpans(seg.segment, /[^\s\p{Cf}]+/gu, t => t.toLowerCase())) {
+      out.push({ token: part.token, start: seg.index + part.start, end: seg.index + part.end });
+    }
+  }
+  return out;
+}
+
+function ngramSpans(text: string, n: number): TokenSpan[] {
+  const out: TokenSpan[] = [];
+  for (const word of regexSpans(text, /\S+/g, t => t)) {
+    const chars = Array.from(word.token);
+    let offset = word.start;
+    for (let i = 0; i < chars.length; i += n) {
+      const chunk = chars.slice(i, i + n).join('');
+      out.push({ token: (i === 0 ? NGRAM_WORD_START : '') + chunk.toLowerCase(), start: offset, end: offset + chunk.length });
+      offset += chunk.length;
+    }
+  }
+  return out;
+}
+
+/**
+ * Resolve a tokenizer by name ("ngram" accepts a size suffix, e.g. "ngram:4")
+ */
+export function getTokenizer(spec: string = DEFAULT_TOKENIZER): Tokenizer {
+  const [name, arg] = spec.split(':');
+  const plain = { surface: (t: string) => t, separator: () => ' ' };
+  switch (name) {
+    case 'ascii': return { name, ...plain, spans: text => regexSpans(text, /[A-Za-z0-9']+/g, t => t.toLowerCase()) };
+    case 'unicode': return { name, ...plain, spans: unicodeSpans };
+    case 'whitespace': return { name, ...plain, spans: text => regexSpans(text, /\S+/g, t => t) };
+    case 'code': return { name, ...plain, spans: text => regexSpans(text, /[\p{L}_$][\p{L}\p{N}_$]*|\p{N}[\p{L}\p{N}_.]*|[^\s\p{L}\p{N}_$]+/gu, t => t) };
+    case 'ngram': {
+      const n = arg ? parseInt(arg, 10) : 3;
+      return {
+        name: `ngram:${n}`,
+        spans: text => ngramSpans(text, n),
+        surface: t => t.startsWith(NGRAM_WORD_START) ? t.slice(NGRAM_WORD_START.length) : t,
+        separator: (_prev, next) => next.startsWith(NGRAM_WORD_START) ? ' ' : ''
+      };
+    }
+    default:
+      throw new Error(`Unknown tokenizer "${spec}"`);
+  }
+}
+
+/**
+ * Join normalized tokens back into readable text
+ */
+export function detokenize(tokens: string[], tokenizer: Tokenizer): string {
+  return tokens.map((t, i) => (i > 0 ? tokenizer.separator(tokens[i - 1], t) : '') + tokenizer.surface(t)).join('');
+}
+
 /**
  * Normalize and split text into words
+ * When a tokenizer is given, its strategy is used instead
  */
-export function words(text: string): string[] {
+export function words(text: string, tokenizer?: Tokenizer): string[] {
+  if (tokenizer) return tokenizer.spans(text).map(s => s.token);
   return text
     .toLowerCase()
     .replace(/[^a-z0-9\s']/g, ' ')
@@ -103,6 +193,19 @@ export function asciiPool(prefix: string = "~", levels: number = 2): string[] {
   return pool;
 }
 
+/**
+ * Check whether a token belongs to an ASCII glyph pool without materializing it
+ */
+export function isPoolGlyph(token: string, prefix: string = "~", levels: number = 2): boolean {
+  if (!token.startsWith(prefix)) return false;
+  const body = token.slice(prefix.length);
+  if (body.length < 1 || body.length > levels) return false;
+  for (const ch of body) {
+    if (!ALPHA.includes(ch)) return false;
+  }
+  return true;
+}
+
 /**
  * FNV1a32 hash function
  */
@@ -160,6 +263,7 @@ export function train(
     prefix?: string;
     levels?: number;
     seed?: string;
+    tokenizer?: string;
   } = {}
 ): GlyphEntry[] {
   const {
@@ -168,11 +272,12 @@ export function train(
     nMax = 5,
     prefix = "~",
     levels = 2,
-    seed
+    seed,
+    tokenizer
   } = options;
   
   // Tokenize text
-  const wordList = words(text);
+  const wordList = words(text, getTokenizer(tokenizer));
   
   // Mine phrases with benefit scoring
   const candidates = mine(wordList, nMin, nMax);
@@ -202,13 +307,18 @@ export function train(
 export type Trie = { 
   kids: Map<string, Trie>; 
   glyph?: string; 
+  glyphs?: Set<string>;                        // Root only: glyphs of the dictionary
+  pool?: { prefix: string; levels: number };   // Root only: active ASCII glyph pool
 };
 
+/** Prefix marking a literal source token that would otherwise read as a glyph */
+export const GLYPH_ESCAPE = '\\';
+
 /**
- * Build trie from glyph entries
+ * Build trie from glyph entries; literal tokens from the active ASCII glyph pool are escaped too
  */
-export function build(entries: GlyphEntry[]): Trie {
-  const root: Trie = { kids: new Map() };
+export function build(entries: GlyphEntry[], pool?: { prefix: string; levels: number }): Trie {
+  const root: Trie = { kids: new Map(), glyphs: new Set(entries.map(e => e.glyph)), pool };
   
   for (const entry of entries) {
     let node = root;
@@ -253,7 +363,11 @@ export function encode(words: string[], trie: Trie): string[] {
       tokens.push(lastMatch.glyph);
       i += lastMatch.len;
     } else {
-      tokens.push(words[i]);
+      const word = words[i];
+      const collides = word.startsWith(GLYPH_ESCAPE) ||
+        !!trie.glyphs?.has(word) ||
+        (!!trie.pool && isPoolGlyph(word, trie.pool.prefix, trie.pool.levels));
+      tokens.push(collides ? GLYPH_ESCAPE + word : word);
       i++;
     }
   }
@@ -274,6 +388,10 @@ export function decode(tokens: string[], entries: GlyphEntry[]): string[] {
   const words: string[] = [];
   
   for (const token of tokens) {
+    if (token.startsWith(GLYPH_ESCAPE)) {
+      words.push(token.slice(GLYPH_ESCAPE.length)); // Escaped literal
+      continue;
+    }
     const phrase = glyphToPhrase.get(token);
     if (phrase) {
       words.push(...phrase);
@@ -284,3 +402,116 @@ export function decode(tokens: string[], entries: GlyphEntry[]): string[] {
   
   return words;
 }
+
+/**
+ * Versioned glyph dictionary format (mirrors tape-core/src/glyphDictionary.ts)
+ */
+export const GLYPH_DICT_FORMAT = 'fractal-tape/glyphs';
+export const GLYPH_DICT_VERSION = 2;
+
+export type GlyphDictEntry = GlyphEntry & { layer: number };
+
+export interface GlyphDictionary {
+  format: string;
+  version: number;
+  tokenizer: string;
+  seed?: string;
+  prefix?: string;
+  levels?: number;
+  hash: string;
+  glyphs: GlyphDictEntry[];
+  [extra: string]: unknown;
+}
+
+export function glyphDictionaryHash(dict: GlyphDictionary): string {
+  const canonical = JSON.stringify([
+    dict.tokenizer, dict.seed ?? null, dict.prefix ?? null, dict.levels ?? null,
+    dict.glyphs.map(g => [g.glyph, g.phrase, g.layer, g.gain ?? null])
+  ]);
+  return fnv1a32(canonical).toString(16).padStart(8, '0');
+}
+
+export function createGlyphDictionary(
+  glyphs: GlyphEntry[],
+  meta: { tokenizer?: string; seed?: string; prefix?: string; levels?: number } = {}
+): GlyphDictionary {
+  const dict: GlyphDictionary = {
+    format: GLYPH_DICT_FORMAT,
+    version: GLYPH_DICT_VERSION,
+    tokenizer: getTokenizer(meta.tokenizer).name,
+    seed: meta.seed,
+    prefix: meta.prefix,
+    levels: meta.levels,
+    hash: '',
+    glyphs: glyphs.map(g => ({ ...g, layer: (g as Partial<GlyphDictEntry>).layer ?? 1 }))
+  };
+  dict.hash = glyphDictionaryHash(dict);
+  return dict;
+}
+
+/**
+ * Validate dictionary consistency
+ */
+export function validateGlyphDictionary(dict: GlyphDictionary): string[] {
+  const errors: string[] = [];
+  if (dict.format !== GLYPH_DICT_FORMAT) errors.push(`Unknown format "${dict.format}"`);
+  if (dict.version > GLYPH_DICT_VERSION) errors.push(`Unsupported version ${dict.version} (max ${GLYPH_DICT_VERSION})`);
+  try { getTokenizer(dict.tokenizer); } catch (e) { errors.push((e as Error).message); }
+  
+  const glyphs = new Set<string>();
+  const phrases = new Set<string>();
+  const words = new Set<string>();
+  dict.glyphs.forEach((g, i) => {
+    if (typeof g.glyph !== 'string' || g.glyph === '' || /\s/.test(g.glyph) || /^[\u0001\u0002\\]/.test(g.glyph)) {
+      errors.push(`Entry ${i}: invalid glyph`);
+    }
+    if (!Array.isArray(g.phrase) || g.phrase.length === 0 || g.phrase.some(w => typeof w !== 'string' || w === '' || /\s/.test(w))) {
+      errors.push(`Entry ${i}: phrase must be a non-empty array of single words`);
+    }
+    if (!Number.isInteger(g.layer) || g.layer < 1) errors.push(`Entry ${i}: layer must be a positive integer`);
+    if (g.gain !== undefined && !Number.isFinite(g.gain)) errors.push(`Entry ${i}: gain must be a finite number`);
+    if (glyphs.has(g.glyph)) errors.push(`Duplicate glyph "${g.glyph}"`);
+    glyphs.add(g.glyph);
+    const key = `${g.layer}:${Array.isArray(g.phrase) ? g.phrase.join(' ') : ''}`;
+    if (phrases.has(key)) errors.push(`Duplicate phrase "${key.slice(key.indexOf(':') + 1)}" in layer ${g.layer}`);
+    phrases.add(key);
+    if (Array.isArray(g.phrase) && g.layer <= 1) g.phrase.forEach(w => words.add(w));
+  });
+  for (const glyph of glyphs) {
+    if (words.has(glyph)) errors.push(`Glyph "${glyph}" collides with a plain vocabulary word`);
+  }
+  if (dict.hash !== glyphDictionaryHash(dict)) errors.push('Content hash mismatch');
+  return errors;
+}
+
+/**
+ * Parse, migrate (bare arrays, unversioned objects) and validate a dictionary
+ */
+export function loadGlyphDictionary(text: string): GlyphDictionary {
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch (e) { throw new Error(`Invalid glyph dictionary: ${(e as Error).message}`); }
+  
+  let dict: GlyphDictionary;
+  if (Array.isArray(raw)) {
+    dict = createGlyphDictionary(raw as GlyphEntry[]);
+  } else if (raw && typeof raw === 'object' && Array.isArray((raw as GlyphDictionary).glyphs)) {
+    const obj = raw as GlyphDictionary;
+    dict = obj.format === GLYPH_DICT_FORMAT ? obj : createGlyphDictionary(obj.glyphs, obj);
+  } else {
+    throw new Error('Invalid glyph dictionary: expected a glyph array or an object with a "glyphs" array');
+  }
+  
+  const errors = validateGlyphDictionary(dict);
+  if (errors.length > 0) throw new Error(`Invalid glyph dictionary: ${errors.join('; ')}`);
+  return dict;
+}
+
+/**
+ * Validate and serialize a dictionary (the content hash is recomputed)
+ */
+export function saveGlyphDictionary(dict: GlyphDictionary): string {
+  const out = { ...dict, version: GLYPH_DICT_VERSION, hash: glyphDictionaryHash(dict) };
+  const errors = validateGlyphDictionary(out);
+  if (errors.length > 0) throw new Error(`Invalid glyph dictionary: ${errors.join('; ')}`);
+  return JSON.stringify(out, null, 2);
+}
@@ -1,7 +1,8 @@
 export type GlyphEntry = { layer: number; phrase: string[]; glyph: string; gain?: number };
 
 // Re-export core training functions for web use (browser-compatible)
-export { train, words, build, encode, decode } from './browser-core.js';
+export { train, words, build, encode, decode, getTokenizer, detokenize, TOKENIZER_NAMES, loadGlyphDictionary } from './browser-core.js';
+import { words as tokenizeWords, build, encode, getTokenizer, DEFAULT_TOKENIZER, createGlyphDictionary, saveGlyphDictionary } from './browser-core.js';
 
 // Safe ASCII alphabet (no quotes, backslash, <, >, &)
 const ALPHA =
@@ -53,7 +54,7 @@ function shuffle<T>(arr: T[], seedStr: string): T[] {
 }
 
 export function normalizeWords(s: string): string[] {
-  return s.toLowerCase().replace(/[^a-z0-9\s']/g, " ").split(/\s+/).filter(Boolean);
+  return tokenizeWords(s, getTokenizer(currentTokenizer));
 }
 
 // Mine bi/tri-grams (you can extend to 4-grams if desired)
@@ -97,7 +98,7 @@ export const PRESET_GLYPHS: GlyphEntry[] = [];
 const POOL = ('⟡◇◆✦✧✪✫✬✭✮✯✰✱✲✳✴✵✶✷✸✹✺✻✼✽✾✿❂❉❋❖❥❧➤➣➢➠➟➛➜➲➳➺➻➼➽➾✚✜✢✣✤✥☆★☼☄☯✈✇⌁⌘').split('');
 
 export function trainGlyphsFromText(text: string, top = 96, layer = 1){
-  const words = text.toLowerCase().replace(/[^a-z0-9\s']/g,' ').split(/\s+/).filter(Boolean);
+  const words = normalizeWords(text);
   const freq = new Map<string, number>();
   for (let i=0;i<words.length;i++){
     if (i+1<words.length) freq.set(`${words[i]}\u0001${words[i+1]}`, (freq.get(`${words[i]}\u0001${words[i+1]}`)||0)+1);
@@ -145,7 +146,7 @@ export function trainLayeredGlyphs(text: string, layerDepth: number, opts?: { to
     } else {
       // Layer 2+: mine from encoded stream
       const allGlyphs = getGlyphsUpToLayer(layer - 1);
-      const trie = build(allGlyphs);
+      const trie = build(allGlyphs, { prefix, levels });
       const words = normalizeWords(currentText);
       const encodedTokens = encode(words, trie);
       
@@ -162,13 +163,17 @@ export function trainLayeredGlyphs(text: string, layerDepth: number, opts?: { to
 let CURRENT: GlyphEntry[] = [...PRESET_GLYPHS];
 let useAsciiOnly = true; // Default to ASCII mode
 let currentLayerDepth = 1; // Track current layer depth
+let currentTokenizer = DEFAULT_TOKENIZER; // Recorded in saved dictionaries
 
 export function getGlyphs(){ return CURRENT; }
 export function setGlyphs(list: GlyphEntry[]){ CURRENT = list; }
-export function exportGlyphs(): string { return JSON.stringify(CURRENT, null, 2); }
+export function exportGlyphs(): string { return saveGlyphDictionary(createGlyphDictionary(CURRENT, { tokenizer: currentTokenizer })); }
 
 export function getAsciiOnly(){ return useAsciiOnly; }
 export function setAsciiOnly(ascii: boolean){ useAsciiOnly = ascii; }
 
 export function getLayerDepth(){ return currentLayerDepth; }
 export function setLayerDepth(depth: number){ currentLayerDepth = depth; }
+
+export function getTokenizerName(){ return currentTokenizer; }
+export function setTokenizerName(name: string){ currentTokenizer = getTokenizer(name).name; }
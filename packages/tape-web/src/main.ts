@@ -1,5 +1,5 @@
 import './style.css';
-import { getGlyphs, setGlyphs, exportGlyphs, buildAsciiGlyphsForTape, getAsciiOnly, setAsciiOnly, train, words, build, encode, trainLayeredGlyphs, getLayerDepth, setLayerDepth, getGlyphsUpToLayer } from './glyphDict';
+import { getGlyphs, setGlyphs, exportGlyphs, buildAsciiGlyphsForTape, getAsciiOnly, setAsciiOnly, train, words, build, encode, trainLayeredGlyphs, getLayerDepth, setLayerDepth, getGlyphsUpToLayer, getTokenizer, getTokenizerName, setTokenizerName, TOKENIZER_NAMES, loadGlyphDictionary } from './glyphDict';
 import { normalizeWords, buildTrie, encodeWithTrie, minDepthForSlots, toBase3 } from './encoder';
 import { computePositions } from './viewer';
 import { drawBaseTriangle, drawGrid, worldToScreen, screenToWorld, Transform } from './viewer';
@@ -49,6 +49,7 @@ app.innerHTML = `
                <label><input id="asciiOnly" type="checkbox" checked/> ASCII only</label>
                <label class="small">Prefix: <input id="prefix" value="~" size="2"/></label>
                <label class="small">Levels: <input id="levels" type="range" min="1" max="3" value="2"/></label>
+               <label class="small">Tokenizer: <select id="tokenizer">${TOKENIZER_NAMES.map(n => `<option>${n}</option>`).join('')}</select></label>
              </div>
              <div class="aggressive-controls">
                <label class="small">Max glyphs: <input id="maxGlyphsTrain" type="range" min="50" max="1000" value="512"/></label>
@@ -102,6 +103,7 @@ const el = {
   nMax: document.getElementById('nMax') as HTMLInputElement,
   layerDepth: document.getElementById('layerDepth') as HTMLInputElement,
   seed: document.getElementById('seed') as HTMLInputElement,
+  tokenizer: document.getElementById('tokenizer') as HTMLSelectElement,
   legend: document.getElementById('legend')!,
 };
 const ctx = el.canvas.getContext('2d')!;
@@ -197,11 +199,11 @@ function updateLegend(glyphs: any[]) {
 }
 
 function updateAll(){
-  const wordList = words(el.input.value);
+  const wordList = words(el.input.value, getTokenizer(getTokenizerName()));
   // Use glyphs up to the current layer depth for encoding
   const currentLayerDepth = getLayerDepth();
   const glyphsToUse = getGlyphsUpToLayer(currentLayerDepth);
-  const trie = build(glyphsToUse);
+  const trie = build(glyphsToUse, getAsciiOnly() ? { prefix: el.prefix.value, levels: parseInt(el.levels.value) } : undefined);
   tokens = encode(wordList, trie);
 
   el.glyphed.value = tokens.join(' ');
@@ -287,6 +289,7 @@ el.asciiOnly.onchange = ()=>{ setAsciiOnly(el.asciiOnly.checked); updateAll(); }
 el.prefix.oninput = ()=>{ updateAll(); };
 el.levels.oninput = ()=>{ updateAll(); };
 el.layerDepth.oninput = ()=>{ setLayerDepth(parseInt(el.layerDepth.value)); updateAll(); };
+el.tokenizer.onchange = ()=>{ setTokenizerName(el.tokenizer.value); updateAll(); };
 
 el.glyphNow.onclick = ()=>{
   const layerDepth = parseInt(el.layerDepth.value);
@@ -308,12 +311,17 @@ el.glyphNow.onclick = ()=>{
 };
 el.loadGlyphs.onclick = ()=>{
   const i = document.createElement('input'); i.type='file'; i.accept='application/json';
-  i.onchange = async ()=>{ if(!i.files?.[0]) return; const txt = await i.files[0].text(); const arr = JSON.parse(txt);
-    if (Array.isArray(arr) && arr.length) { setGlyphs(arr); updateAll(); } };
+  i.onchange = async ()=>{ if(!i.files?.[0]) return; const txt = await i.files[0].text();
+    let dict;
+    try { dict = loadGlyphDictionary(txt); } catch (e) { alert((e as Error).message); return; }
+    setTokenizerName(dict.tokenizer); el.tokenizer.value = getTokenizerName().split(':')[0];
+    if (dict.glyphs.length) { setGlyphs(dict.glyphs); updateAll(); } };
   i.click();
 };
 el.saveGlyphs.onclick = ()=>{
-  const blob = new Blob([exportGlyphs()], {type:'application/json'});
+  let json: string;
+  try { json = exportGlyphs(); } catch (e) { alert((e as Error).message); return; }
+  const blob = new Blob([json], {type:'application/json'});
   const a = document.createElement('a'); a.href=URL.createObjectURL(blob); a.download='glyphs.json'; a.click(); URL.revokeObjectURL(a.href);
 };
 